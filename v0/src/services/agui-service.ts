@@ -10,6 +10,7 @@ import type {
   ApiConfig,
 } from './types';
 import { buildEndpointUrl } from './types/api';
+import { SseDecoder } from '../utils/sse-decoder';
 
 export interface ChatService {
   messages: () => EnhancedAGUIMessage[];
@@ -97,7 +98,7 @@ export function createAGUIService(apiConfigOrUrl?: string | ApiConfig): ChatServ
       }
 
       const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      const decoder = new SseDecoder();
 
       if (!reader) {
         throw new Error('No response body');
@@ -105,19 +106,14 @@ export function createAGUIService(apiConfigOrUrl?: string | ApiConfig): ChatServ
 
       while (true) {
         const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (!line.trim() || !line.startsWith('data: ')) continue;
+        // Events may span chunks - the decoder buffers them; end() flushes the last one
+        const events = done ? decoder.end() : decoder.push(value);
 
+        for (const sse of events) {
           try {
-            const data = line.slice(6); // Remove 'data: ' prefix
-            if (data === '[DONE]') continue;
+            if (sse.data === '[DONE]') continue;
 
-            const event: AGUIEvent = JSON.parse(data);
+            const event: AGUIEvent = JSON.parse(sse.data);
 
             // Handle different event types
             switch (event.type) {
@@ -424,6 +420,8 @@ export function createAGUIService(apiConfigOrUrl?: string | ApiConfig): ChatServ
             console.error('Error parsing SSE event:', parseError);
           }
         }
+
+        if (done) break;
       }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
@@ -0,0 +1,48 @@
+import { Component, createMemo } from 'solid-js';
+import { ConfirmDialog } from './ConfirmDialog';
+import { usePendingTools } from '../primitives/usePendingTools';
+import type { Id, ToolExecution } from '../types';
+
+export interface ToolApprovalDialogProps {
+  conversationId?: Id;
+  title?: (execution: ToolExecution) => string;
+  message?: (execution: ToolExecution) => string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  isDangerous?: boolean;
+  rejectReason?: string; // Sent to the agent when the user declines
+}
+
+/**
+ * ToolApprovalDialog - Prompts for tool calls waiting on approval
+ *
+ * Shows the oldest tool call registered with the 'confirm' policy and
+ * approves or rejects it. Calls queue up and are shown one at a time.
+ *
+ * @example
+ * <ChatProvider client={client} tools={[{ tool: deleteFile, handler, policy: 'confirm' }]}>
+ *   <Chat />
+ *   <ToolApprovalDialog isDangerous />
+ * </ChatProvider>
+ */
+export const ToolApprovalDialog: Component<ToolApprovalDialogProps> = (props) => {
+  const { waiting, approve, reject } = usePendingTools(props.conversationId);
+
+  const current = createMemo(() => waiting()[0]);
+
+  return (
+    <ConfirmDialog
+      isOpen={!!current()}
+      title={current() ? props.title?.(current()!) ?? `Allow "${current()!.toolName}"?` : ''}
+      message={current() ? props.message?.(current()!) ?? 'The assistant wants to run this action.' : ''}
+      description={current() ? JSON.stringify(current()!.args, null, 2) : undefined}
+      confirmLabel={props.confirmLabel || 'Allow'}
+      cancelLabel={props.cancelLabel || 'Deny'}
+      isDangerous={props.isDangerous}
+      onConfirm={() => approve(current()!.toolCallId)}
+      onCancel={() => reject(current()!.toolCallId, props.rejectReason)}
+    />
+  );
+};
+
+export default ToolApprovalDialog;
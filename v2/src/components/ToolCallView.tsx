@@ -0,0 +1,140 @@
+import { Component, For, Show, createMemo } from 'solid-js';
+import { Dynamic } from 'solid-js/web';
+import { useChatContext } from '../primitives/ChatProvider';
+import { useToolCall } from '../primitives/useToolCall';
+import type { Id, ToolComponent, ToolComponentProps, ToolResult } from '../types';
+
+export interface ToolCallViewProps {
+  messageId: Id;
+  fallback?: ToolComponent<any>; // For tools without a registered component (default: DefaultToolCallView)
+  class?: string;
+}
+
+export interface ToolCallItemProps {
+  toolCallId: string;
+  messageId?: Id;
+  fallback?: ToolComponent<any>;
+}
+
+/**
+ * ToolCallView - Generative UI for the tool calls of an assistant message
+ *
+ * Renders every tool call of the message, in order, with the component
+ * registered for its tool name (ChatProvider `toolComponents`, a tool's
+ * `component`, or registerToolComponent). Calls still streaming are shown
+ * too, with their args updating live.
+ *
+ * @example
+ * <ChatProvider client={client} toolComponents={{ showWeather: WeatherCard }}>
+ *   <For each={messages()}>
+ *     {(m) => <><MessageBody message={m} /><ToolCallView messageId={m.id} /></>}
+ *   </For>
+ * </ChatProvider>
+ */
+export const ToolCallView: Component<ToolCallViewProps> = (props) => {
+  const store = useChatContext();
+
+  // Completed calls first, then calls still streaming for this message
+  const toolCallIds = createMemo(() => {
+    const ids = (store.state.messages[props.messageId]?.toolCalls ?? []).map(tc => tc.id);
+    for (const tc of Object.values(store.state.toolCallsInProgress)) {
+      if (tc.messageId === props.messageId && !ids.includes(tc.id)) ids.push(tc.id);
+    }
+    return ids;
+  });
+
+  return (
+    <Show when={toolCallIds().length > 0}>
+      <div class={`space-y-2 ${props.class || ''}`}>
+        <For each={toolCallIds()}>
+          {(id) => <ToolCallItem toolCallId={id} messageId={props.messageId} fallback={props.fallback} />}
+        </For>
+      </div>
+    </Show>
+  );
+};
+
+/**
+ * ToolCallItem - Renders a single tool call with its registered component
+ */
+export const ToolCallItem: Component<ToolCallItemProps> = (props) => {
+  const store = useChatContext();
+  const call = useToolCall(props.toolCallId, props.messageId);
+
+  const component = createMemo(() => {
+    const name = call.toolName();
+    return (name && store.toolComponents[name]) || props.fallback || DefaultToolCallView;
+  });
+
+  const componentProps: ToolComponentProps = {
+    toolCallId: props.toolCallId,
+    get toolName() { return call.toolName() ?? ''; },
+    get messageId() { return call.messageId() ?? props.messageId ?? ''; },
+    get args() { return call.args(); },
+    get argsText() { return call.argsText(); },
+    get status() { return call.status() ?? 'streaming'; },
+    get result() { return call.result(); },
+    get error() { return call.error(); },
+    get progress() { return call.progress(); },
+    get awaitingResponse() { return call.awaitingResponse(); },
+    respond: call.respond,
+  };
+
+  return (
+    <Show when={call.toolName()}>
+      <Dynamic component={component()} {...componentProps} />
+    </Show>
+  );
+};
+
+/**
+ * DefaultToolCallView - Tool name, status, arguments and result
+ */
+export const DefaultToolCallView: ToolComponent = (props) => {
+  const isActive = () => ['streaming', 'pending', 'executing'].includes(props.status);
+
+  const statusColor = () => {
+    switch (props.status) {
+      case 'completed':
+        return 'text-green-600 bg-green-50 border-green-200';
+      case 'failed':
+        return 'text-red-600 bg-red-50 border-red-200';
+      case 'rejected':
+      case 'canceled':
+        return 'text-gray-600 bg-gray-50 border-gray-200';
+      default:
+        return 'text-amber-600 bg-amber-50 border-amber-200';
+    }
+  };
+
+  return (
+    <div class={`border rounded-lg p-3 ${statusColor()}`}>
+      <div class="flex items-center gap-2">
+        <span class="font-medium text-sm">{props.toolName}</span>
+        <span class="text-xs opacity-75">{props.status}</span>
+      </div>
+
+      <Show when={props.argsText}>
+        <pre class="mt-2 text-xs bg-black/5 p-2 rounded border overflow-x-auto">
+          {Object.keys(props.args).length ? JSON.stringify(props.args, null, 2) : props.argsText}
+        </pre>
+      </Show>
+
+      <Show when={props.result !== undefined && !isActive()}>
+        <pre class="mt-2 text-xs bg-black/5 p-2 rounded border overflow-x-auto whitespace-pre-wrap">
+          {formatResult(props.result)}
+        </pre>
+      </Show>
+
+      <Show when={props.error}>
+        <div class="mt-2 text-xs">{props.error!.message}</div>
+      </Show>
+    </div>
+  );
+};
+
+function formatResult(result: ToolResult | undefined): string {
+  return typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+}
+
+export default ToolCallView;
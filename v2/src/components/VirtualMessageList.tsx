@@ -0,0 +1,183 @@
+import { Component, For, JSX, batch, createEffect, createMemo, createSignal, onCleanup, onMount } from 'solid-js';
+import { createStore } from 'solid-js/store';
+import type { Id, MessageDoc } from '../types';
+
+export interface VirtualMessageListProps {
+  messages: MessageDoc[]; // Oldest first (e.g. useConversation().messages())
+  children: (message: MessageDoc, index: () => number) => JSX.Element;
+  estimatedHeight?: number; // Row height until it is measured, in px (default: 80)
+  overscan?: number; // Rows kept beyond each edge of the viewport (default: 5)
+  hasMore?: boolean; // Older messages are left to load
+  onLoadOlder?: () => void | Promise<void>; // Called near the top while hasMore
+  loadThreshold?: number; // Distance from the top that loads older messages, in px (default: 200)
+  class?: string;
+}
+
+/**
+ * VirtualMessageList - Scrolling message list that only keeps the rows in
+ * view in the DOM
+ *
+ * Rows are measured as they render, so they can be any height. The list
+ * starts at the bottom and follows new messages while scrolled to the
+ * bottom. Scrolling near the top loads older messages, and the rows in view
+ * stay put when they are prepended.
+ *
+ * @example
+ * const { messages, hasMore, loadOlder } = useConversation();
+ *
+ * <VirtualMessageList messages={messages()} hasMore={hasMore()} onLoadOlder={loadOlder} class="h-full">
+ *   {(m) => <MessageBubble message={m} />}
+ * </VirtualMessageList>
+ */
+export const VirtualMessageList: Component<VirtualMessageListProps> = (props) => {
+  let scrollRef: HTMLDivElement | undefined;
+
+  const estimatedHeight = () => props.estimatedHeight ?? 80;
+  const overscan = () => props.overscan ?? 5;
+
+  const [heights, setHeights] = createStore<Record<Id, number>>({});
+  const [scrollTop, setScrollTop] = createSignal(0);
+  const [viewportHeight, setViewportHeight] = createSignal(0);
+
+  // Top of each row, plus the total height at the end
+  const offsets = createMemo(() => {
+    const result = [0];
+    let top = 0;
+    for (const m of props.messages) {
+      top += heights[m.id] ?? estimatedHeight();
+      result.push(top);
+    }
+    return result;
+  });
+
+  // First row whose bottom is below y
+  const rowAt = (y: number) => {
+    const tops = offsets();
+    let lo = 0;
+    let hi = props.messages.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (tops[mid + 1] > y) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  };
+
+  const range = createMemo(() => {
+    const count = props.messages.length;
+    const first = rowAt(scrollTop());
+    const last = rowAt(scrollTop() + viewportHeight());
+    return {
+      start: Math.max(0, first - overscan()),
+      end: Math.min(count, last + 1 + overscan()),
+    };
+  });
+
+  const visible = createMemo(() => props.messages.slice(range().start, range().end));
+  const spaceAbove = () => offsets()[range().start];
+  const spaceBelow = () => offsets()[props.messages.length] - offsets()[range().end];
+
+  // ==========================================================================
+  // Scroll anchoring - pinned to the bottom, or to the first row in view
+  // ==========================================================================
+
+  let pinned = true;
+  let anchor: { id: Id; delta: number } | undefined;
+
+  const onScroll = () => {
+    if (!scrollRef) return;
+    const top = scrollRef.scrollTop;
+    setScrollTop(top);
+    pinned = scrollRef.scrollHeight - top - scrollRef.clientHeight < 4;
+
+    const index = rowAt(top);
+    const m = props.messages[index];
+    anchor = m ? { id: m.id, delta: top - offsets()[index] } : undefined;
+    loadOlderIfNeeded();
+  };
+
+  createEffect(() => {
+    const tops = offsets();
+    if (!scrollRef) return;
+    if (pinned) {
+      scrollRef.scrollTop = scrollRef.scrollHeight;
+    } else if (anchor) {
+      const { id, delta } = anchor;
+      const index = props.messages.findIndex(m => m.id === id);
+      const target = index >= 0 ? tops[index] + delta : undefined;
+      if (target !== undefined && Math.abs(scrollRef.scrollTop - target) > 1) scrollRef.scrollTop = target;
+    }
+    setScrollTop(scrollRef.scrollTop);
+    loadOlderIfNeeded();
+  });
+
+  // ==========================================================================
+  // Loading older messages
+  // ==========================================================================
+
+  let loadingOlder = false;
+
+  // Near the top, or the loaded rows do not fill the viewport yet
+  function loadOlderIfNeeded() {
+    if (!scrollRef || loadingOlder || !props.hasMore || !props.onLoadOlder) return;
+    if (scrollRef.scrollTop > (props.loadThreshold ?? 200)) return;
+    loadingOlder = true;
+    Promise.resolve(props.onLoadOlder())
+      .catch(error => console.warn('Failed to load older messages:', error))
+      .finally(() => { loadingOlder = false; });
+  }
+
+  // ==========================================================================
+  // Measuring
+  // ==========================================================================
+
+  const rows = new Map<Element, Id>();
+  const resizeObserver = typeof ResizeObserver !== 'undefined'
+    ? new ResizeObserver((entries) => {
+        batch(() => {
+          for (const entry of entries) {
+            if (entry.target === scrollRef) {
+              setViewportHeight(scrollRef.clientHeight);
+              continue;
+            }
+            const id = rows.get(entry.target);
+            const height = (entry.target as HTMLElement).offsetHeight;
+            if (id && heights[id] !== height) setHeights(id, height);
+          }
+        });
+      })
+    : undefined;
+
+  const measure = (el: HTMLDivElement, id: Id) => {
+    rows.set(el, id);
+    resizeObserver?.observe(el);
+    onCleanup(() => {
+      rows.delete(el);
+      resizeObserver?.unobserve(el);
+    });
+  };
+
+  onMount(() => {
+    if (!scrollRef) return;
+    setViewportHeight(scrollRef.clientHeight);
+    resizeObserver?.observe(scrollRef);
+  });
+
+  onCleanup(() => resizeObserver?.disconnect());
+
+  return (
+    <div ref={scrollRef} class={props.class} style={{ 'overflow-y': 'auto' }} onScroll={onScroll}>
+      <div style={{ height: `${spaceAbove()}px` }} />
+      <For each={visible()}>
+        {(message, i) => (
+          <div ref={(el) => measure(el, message.id)} data-message-id={message.id}>
+            {props.children(message, () => range().start + i())}
+          </div>
+        )}
+      </For>
+      <div style={{ height: `${spaceBelow()}px` }} />
+    </div>
+  );
+};
+
+export default VirtualMessageList;
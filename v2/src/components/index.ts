@@ -0,0 +1,8 @@
+export { ConfirmDialog } from './ConfirmDialog';
+export type { ConfirmDialogProps } from './ConfirmDialog';
+export { ToolApprovalDialog } from './ToolApprovalDialog';
+export type { ToolApprovalDialogProps } from './ToolApprovalDialog';
+export { ToolCallView, ToolCallItem, DefaultToolCallView } from './ToolCallView';
+export type { ToolCallViewProps, ToolCallItemProps } from './ToolCallView';
+export { VirtualMessageList } from './VirtualMessageList';
+export type { VirtualMessageListProps } from './VirtualMessageList';
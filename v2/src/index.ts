@@ -18,14 +18,26 @@ export type {
   EventPayloads,
   EventType,
   AgUiClient,
+  ChangeSet,
+  MessagePageOptions,
   AgRole,
   JsonPatchOp,
   AgSpecEventPayloads,
   AgSpecEventType,
   // V2: Tool Execution Types
   ToolHandler,
+  ToolHandlerContext,
   ToolExecutionStatus,
+  ToolApprovalPolicy,
+  ToolRetryPolicy,
   ToolExecution,
+  ToolCallOutput,
+  ToolResultOptions,
+  ToolResult,
+  ToolContentBlock,
+  ToolCallStatus,
+  ToolComponent,
+  ToolComponentProps,
   RegisteredTool,
 } from './types';
 
@@ -51,6 +63,12 @@ export type {
   RunStartedEvent,
   RunFinishedEvent,
   RunErrorEvent,
+  StepStartedEvent,
+  StepFinishedEvent,
+  ThinkingStartEvent,
+  ThinkingEndEvent,
+  RawEvent,
+  CustomEvent,
 } from '@ag-ui/core';
 
 // ============================================================================
@@ -61,31 +79,104 @@ export type {
 export type { SdkAgentOptions } from './transport/sdk-agent';
 export { SdkAgClient, createSdkAgent } from './transport/sdk-agent';
 
+// WebSocket client (multiplexed conversations, server push)
+export type { WsAgClientOptions, WsReconnectOptions } from './transport/ws';
+export { WsAgClient, createWsAgent } from './transport/ws';
+
 // LEGACY: Custom SSE client (deprecated - use createSdkAgent instead)
-export type { SseAgClientOptions } from './transport/sse';
+export type { SseAgClientOptions, SseReconnectOptions } from './transport/sse';
 export { SseAgClient } from './transport/sse';
 
+// Spec-compliant SSE decoder shared by the transports
+export type { SseEvent, SseDecoderOptions } from './transport/sse-decoder';
+export { SseDecoder, readSseEvents } from './transport/sse-decoder';
+
 // ============================================================================
 // State Management (Low-level)
 // ============================================================================
-export type { ChatState } from './store/state';
+export type { ChatState, MessageHistory, RunRecord, RunStatus, StepRecord, SyncConflict, ThinkingRecord, ToolCallFailure, ToolCallInProgress } from './store/state';
 export {
   initStateFromSnapshot,
   toSnapshot,
+  hydrateFromSnapshot,
+  applyChangeSet,
+  prependMessages,
+  removeConversation,
+  removeMessage,
+  compareRevisions,
   applyNormalizedEvent,
   applySpecEvent,
+  applyEvent,
+  getActiveRun,
+  getEventConversation,
+  getEventRun,
+  applyAgentStateDelta,
+  getActivePath,
+  getBranchPath,
+  getChildMessages,
+  selectBranch,
+  parsePartialArgs,
 } from './store/state';
 
 // NOTE: applyJsonPatch removed - use fast-json-patch library directly:
 // import { applyPatch } from 'fast-json-patch';
 
-export type { AgUiStore } from './store/createAgUiStore';
+export type { AgUiStore, AgUiStoreEvents } from './store/createAgUiStore';
 export { createAgUiStore } from './store/createAgUiStore';
 
 // ============================================================================
 // V2: Tool Execution Engine
 // ============================================================================
-export { ToolExecutor } from './tool-executor';
+export type { ToolExecutorOptions } from './tool-executor';
+export {
+  ToolExecutor,
+  ToolRejectedError,
+  ToolArgumentsError,
+  ToolExecutionError,
+  serializeToolResult,
+  interactiveToolHandler,
+  isContentBlocks,
+} from './tool-executor';
+export type { ToolArgsIssue, ToolArgsValidationResult } from './tool-validation';
+export { validateToolArgs } from './tool-validation';
+export { parsePartialJson, PartialJsonParser } from './partial-json';
+export type { PartialJsonPath, PartialJsonUpdate } from './partial-json';
+
+// ============================================================================
+// V2: MCP (Model Context Protocol) Bridge
+// ============================================================================
+export {
+  McpToolBridge,
+  mcpResultToToolResult,
+  McpClient,
+  McpError,
+  MCP_PROTOCOL_VERSION,
+  StreamableHttpMcpTransport,
+  SseMcpTransport,
+  WebSocketMcpTransport,
+  createMcpTransport,
+} from './mcp';
+export type {
+  McpServerOptions,
+  McpClientOptions,
+  McpTool,
+  McpContent,
+  McpCallToolResult,
+  McpTransport,
+  McpHttpTransportOptions,
+  McpWebSocketTransportOptions,
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcRequest,
+  JsonRpcNotification,
+  JsonRpcResponse,
+} from './mcp';
+
+// ============================================================================
+// Offline-first Cache
+// ============================================================================
+export { IndexedDBChatCache, MemoryChatCache } from './storage';
+export type { ChatCache, IndexedDBChatCacheOptions } from './storage';
 
 // ============================================================================
 // SolidJS Primitives (Recommended API)
@@ -98,10 +189,18 @@ export {
   useConversation,
   useMessages,
   useStreamingText,
+  useBranches,
+  useAgentState,
+  useRun,
+  useSteps,
+  useThinking,
   // V2: Tool Execution Primitives
   useToolCalls,
   useToolExecution,
+  useToolCall,
+  useStreamingToolArgs,
   usePendingTools,
+  useRegisterTool,
 } from './primitives';
 
 export type {
@@ -110,11 +209,21 @@ export type {
   UseChatReturn,
   UseConversationListReturn,
   UseConversationReturn,
+  UseAgentStateReturn,
+  UseRegisterToolOptions,
 } from './primitives';
 
+// ============================================================================
+// UI Components
+// ============================================================================
+export { ConfirmDialog, ToolApprovalDialog, ToolCallView, ToolCallItem, DefaultToolCallView, VirtualMessageList } from './components';
+export type { ConfirmDialogProps, ToolApprovalDialogProps, ToolCallViewProps, ToolCallItemProps, VirtualMessageListProps } from './components';
+
 // ============================================================================
 // Testing Utilities
 // ============================================================================
 export type { MockClientOptions } from './testing/mockClient';
 export { MockAgClient } from './testing/mockClient';
+export type { MockMcpServerOptions, MockMcpToolHandler, MockMcpToolContext } from './testing/mockMcpServer';
+export { MockMcpServer, MockMcpTransport } from './testing/mockMcpServer';
 export { runBasicScenario } from './testing/scenarios';
@@ -0,0 +1,244 @@
+// =============================================================================
+// MCP Tool Bridge
+// Registers the tools of MCP servers into a ToolExecutor with proxy handlers,
+// and keeps the registrations in sync with the servers' tool lists.
+// =============================================================================
+
+import type { Tool } from '@ag-ui/core';
+import type { ToolExecutor } from '../tool-executor';
+import type {
+  McpServerRef,
+  ToolApprovalPolicy,
+  ToolContentBlock,
+  ToolHandler,
+  ToolResult,
+  ToolRetryPolicy,
+} from '../types';
+import { McpClient } from './client';
+import type { McpCallToolResult, McpClientOptions, McpTool } from './client';
+import { createMcpTransport } from './transport';
+import type { McpHttpTransportOptions, McpTransport, McpWebSocketTransportOptions } from './transport';
+
+export interface McpServerOptions extends McpHttpTransportOptions, McpWebSocketTransportOptions, McpClientOptions {
+  transport?: McpTransport; // Use this transport instead of one built from the server ref
+  toolPrefix?: string; // Prepended to tool names, to keep servers with the same tool names apart (default: none)
+  // Registration options for every tool of the server
+  policy?: ToolApprovalPolicy;
+  retry?: ToolRetryPolicy;
+  timeoutMs?: number;
+}
+
+// A connected server and the executor tools registered for it
+interface McpServerConnection {
+  server: McpServerRef;
+  client: McpClient;
+  options: McpServerOptions;
+  tools: Map<string, McpToolRegistration>; // Registered name -> registration
+  unsubscribe: () => void;
+}
+
+// A tool this server registered - unregister() leaves alone a tool another
+// server has since registered under the same name
+interface McpToolRegistration {
+  mcpTool: McpTool;
+  tool: Tool;
+  unregister: () => void;
+}
+
+/**
+ * Bridge between MCP servers and a ToolExecutor
+ *
+ * @example
+ * ```ts
+ * const bridge = new McpToolBridge(toolExecutor);
+ * await bridge.addServer({ name: 'github', transport: 'http', uri: 'https://mcp.example.com/mcp' });
+ * ```
+ */
+export class McpToolBridge {
+  private servers = new Map<string, McpServerConnection>();
+  private listeners = new Map<string, Set<Function>>();
+
+  constructor(private toolExecutor: ToolExecutor) {}
+
+  /**
+   * Connect to a server and register its tools
+   * @returns The tools registered (with their executor names)
+   */
+  async addServer(server: McpServerRef, options: McpServerOptions = {}): Promise<Tool[]> {
+    if (this.servers.has(server.name)) {
+      await this.removeServer(server.name);
+    }
+
+    const transport = options.transport ?? createMcpTransport(server, options);
+    const client = new McpClient(transport, options);
+    try {
+      await client.connect();
+    } catch (error) {
+      await client.close().catch(() => {}); // Don't leak the transport of a failed handshake
+      throw error;
+    }
+
+    const connection: McpServerConnection = { server, client, options, tools: new Map(), unsubscribe: () => {} };
+    this.servers.set(server.name, connection);
+
+    // Keep in sync when the server announces a new tool list
+    connection.unsubscribe = client.on('notifications/tools/list_changed', () => {
+      this.syncTools(connection).catch(error => {
+        console.error(`Failed to refresh tools of MCP server "${server.name}":`, error);
+        this.emit('server.error', { server: server.name, error });
+      });
+    });
+
+    await this.syncTools(connection);
+    this.emit('server.connected', { server: server.name });
+    return this.getTools(server.name);
+  }
+
+  /**
+   * Disconnect a server and unregister its tools
+   */
+  async removeServer(name: string): Promise<void> {
+    const connection = this.servers.get(name);
+    if (!connection) return;
+    this.servers.delete(name);
+    connection.unsubscribe();
+    for (const registration of connection.tools.values()) registration.unregister();
+    await connection.client.close().catch(() => {});
+    this.emit('server.disconnected', { server: name });
+  }
+
+  /**
+   * Tools registered from MCP servers (optionally from one server) - a tool
+   * replaced by another server's tool of the same name belongs to that server
+   */
+  getTools(serverName?: string): Tool[] {
+    return [...this.servers.values()]
+      .filter(c => !serverName || c.server.name === serverName)
+      .flatMap(c => [...c.tools.values()])
+      .filter(r => this.toolExecutor.getTool(r.tool.name)?.tool === r.tool)
+      .map(r => r.tool);
+  }
+
+  /**
+   * The MCP client of a connected server
+   */
+  getClient(serverName: string): McpClient | undefined {
+    return this.servers.get(serverName)?.client;
+  }
+
+  /**
+   * Event emitter: 'server.connected', 'server.disconnected', 'server.error', 'tools.changed'
+   */
+  on(event: string, handler: Function): () => void {
+    const set = this.listeners.get(event) || new Set();
+    set.add(handler);
+    this.listeners.set(event, set);
+    return () => this.off(event, handler);
+  }
+
+  off(event: string, handler: Function): void {
+    this.listeners.get(event)?.delete(handler);
+  }
+
+  /**
+   * Disconnect every server
+   */
+  async close(): Promise<void> {
+    await Promise.all([...this.servers.keys()].map(name => this.removeServer(name)));
+    this.listeners.clear();
+  }
+
+  // Re-list the server's tools and apply the difference to the executor
+  private async syncTools(connection: McpServerConnection): Promise<void> {
+    const listed = await connection.client.listTools();
+    if (this.servers.get(connection.server.name) !== connection) return; // Removed meanwhile
+
+    const prefix = connection.options.toolPrefix ?? '';
+    const listedByName = new Map(listed.map(tool => [prefix + tool.name, tool]));
+    const next = new Map<string, McpToolRegistration>();
+    const added: string[] = [];
+    const removed: string[] = [];
+
+    for (const [name, registration] of connection.tools) {
+      if (!listedByName.has(name)) {
+        registration.unregister();
+        removed.push(name);
+      }
+    }
+
+    for (const [name, mcpTool] of listedByName) {
+      const current = connection.tools.get(name);
+      if (current && JSON.stringify(current.mcpTool) === JSON.stringify(mcpTool)) {
+        next.set(name, current);
+        continue;
+      }
+      current?.unregister();
+      const tool: Tool = { name, description: mcpTool.description ?? mcpTool.title ?? '', parameters: mcpTool.inputSchema };
+      const unregister = this.toolExecutor.registerTool(
+        tool,
+        this.createHandler(connection, mcpTool.name),
+        { policy: connection.options.policy, retry: connection.options.retry, timeoutMs: connection.options.timeoutMs }
+      );
+      next.set(name, { mcpTool, tool, unregister });
+      added.push(name);
+    }
+
+    connection.tools = next;
+    if (added.length || removed.length) {
+      this.emit('tools.changed', { server: connection.server.name, added, removed });
+    }
+  }
+
+  // Proxy handler - forwards the call, cancellation and progress to the server
+  private createHandler(connection: McpServerConnection, mcpToolName: string): ToolHandler {
+    return async (args, context) => {
+      const result = await connection.client.callTool(mcpToolName, args, {
+        signal: context.signal,
+        onProgress: context.onProgress,
+      });
+      return mcpResultToToolResult(result);
+    };
+  }
+
+  private emit(event: string, payload: unknown): void {
+    this.listeners.get(event)?.forEach((fn) => {
+      try {
+        (fn as any)(payload);
+      } catch (e) {
+        console.error(`Error in MCP bridge handler for ${event}:`, e);
+      }
+    });
+  }
+}
+
+/**
+ * Convert an MCP tool result into a ToolExecutor result. Tool-level errors
+ * (`isError`) throw, so the agent receives a TOOL_EXECUTION_FAILED result.
+ */
+export function mcpResultToToolResult(result: McpCallToolResult): ToolResult {
+  const content = result.content ?? [];
+  if (result.isError) {
+    const message = content.map(c => (c.type === 'text' ? c.text : '')).filter(Boolean).join('\n');
+    throw new Error(message || 'MCP tool call failed');
+  }
+
+  if (result.structuredContent) return result.structuredContent;
+  if (content.length === 1 && content[0].type === 'text') return content[0].text;
+
+  return content.map((c): ToolContentBlock => {
+    switch (c.type) {
+      case 'text':
+        return { type: 'text', text: c.text };
+      case 'image':
+        return { type: 'image', url: `data:${c.mimeType};base64,${c.data}`, mimeType: c.mimeType };
+      case 'audio':
+        return { type: 'file', url: `data:${c.mimeType};base64,${c.data}`, mimeType: c.mimeType };
+      case 'resource':
+        return c.resource.text !== undefined
+          ? { type: 'text', text: c.resource.text }
+          : { type: 'file', url: c.resource.uri, mimeType: c.resource.mimeType };
+      case 'resource_link':
+        return { type: 'file', url: c.uri, mimeType: c.mimeType, name: c.name };
+    }
+  });
+}
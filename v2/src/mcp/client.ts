@@ -0,0 +1,233 @@
+// =============================================================================
+// MCP Client
+// Minimal Model Context Protocol client: initialize handshake, tool listing
+// and calls, cancellation, progress and list-change notifications.
+// =============================================================================
+
+import type {
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  McpTransport,
+} from './transport';
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+/**
+ * Tool as listed by an MCP server
+ */
+export interface McpTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: Record<string, unknown>; // JSON Schema
+  annotations?: Record<string, unknown>;
+}
+
+/**
+ * Content returned by an MCP tool call
+ */
+export type McpContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: { uri: string; mimeType?: string; text?: string; blob?: string } }
+  | { type: 'resource_link'; uri: string; name?: string; mimeType?: string };
+
+export interface McpCallToolResult {
+  content: McpContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface McpClientOptions {
+  clientInfo?: { name: string; version: string };
+  requestTimeoutMs?: number; // Default: 60000
+}
+
+/**
+ * JSON-RPC error returned by an MCP server
+ */
+export class McpError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message);
+    this.name = 'McpError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class McpClient {
+  private nextId = 1;
+  private pending = new Map<JsonRpcId, PendingRequest>();
+  private listeners = new Map<string, Set<Function>>();
+  private progressHandlers = new Map<JsonRpcId, (progress: unknown) => void>(); // progressToken -> handler
+  private requestTimeoutMs: number;
+  private clientInfo: { name: string; version: string };
+
+  serverInfo?: { name: string; version: string };
+  serverCapabilities?: Record<string, any>;
+
+  constructor(private transport: McpTransport, options: McpClientOptions = {}) {
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 60000;
+    this.clientInfo = options.clientInfo ?? { name: 'solid-ag-chat', version: '2.0.0' };
+  }
+
+  /**
+   * Start the transport and run the initialize handshake
+   */
+  async connect(): Promise<void> {
+    this.transport.onmessage = (message) => this.handleMessage(message);
+    this.transport.onclose = () => this.failPending(new Error('MCP connection closed'));
+    this.transport.onerror = (error) => this.emit('error', error);
+    await this.transport.start();
+
+    const result = await this.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: this.clientInfo,
+    });
+    this.serverInfo = result.serverInfo;
+    this.serverCapabilities = result.capabilities ?? {};
+    this.transport.setProtocolVersion?.(result.protocolVersion ?? MCP_PROTOCOL_VERSION);
+
+    await this.notify('notifications/initialized');
+  }
+
+  /**
+   * List every tool the server offers (follows pagination)
+   */
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request('tools/list', cursor ? { cursor } : {});
+      tools.push(...(result.tools ?? []));
+      cursor = result.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /**
+   * Call a tool. Aborting the signal sends a cancellation to the server.
+   */
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    options?: { signal?: AbortSignal; onProgress?: (progress: unknown) => void }
+  ): Promise<McpCallToolResult> {
+    const id = this.nextId++;
+    const params: Record<string, unknown> = { name, arguments: args };
+    if (options?.onProgress) {
+      params._meta = { progressToken: id };
+      this.progressHandlers.set(id, options.onProgress);
+    }
+
+    const onAbort = () => {
+      this.notify('notifications/cancelled', { requestId: id, reason: String(options!.signal!.reason ?? 'Canceled') })
+        .catch(() => {});
+      this.settle(id, undefined, options!.signal!.reason ?? new Error('Canceled'));
+    };
+    options?.signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await this.request('tools/call', params, id);
+    } finally {
+      options?.signal?.removeEventListener('abort', onAbort);
+      this.progressHandlers.delete(id);
+    }
+  }
+
+  /**
+   * Subscribe to server notifications by method (e.g. 'notifications/tools/list_changed'),
+   * or 'error' for transport errors
+   */
+  on(method: string, handler: (params: any) => void): () => void {
+    const set = this.listeners.get(method) || new Set();
+    set.add(handler);
+    this.listeners.set(method, set);
+    return () => this.off(method, handler);
+  }
+
+  off(method: string, handler: (params: any) => void): void {
+    this.listeners.get(method)?.delete(handler);
+  }
+
+  async close(): Promise<void> {
+    this.failPending(new Error('MCP client closed'));
+    this.listeners.clear();
+    await this.transport.close();
+  }
+
+  private request(method: string, params?: Record<string, unknown>, id: JsonRpcId = this.nextId++): Promise<any> {
+    const message: JsonRpcRequest = { jsonrpc: '2.0', id, method, params };
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => this.settle(id, undefined, new Error(`MCP request "${method}" timed out`)),
+        this.requestTimeoutMs
+      );
+      this.pending.set(id, { resolve, reject, timer });
+      this.transport.send(message).catch(error => this.settle(id, undefined, error));
+    });
+  }
+
+  private notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    const message: JsonRpcNotification = { jsonrpc: '2.0', method, params };
+    return this.transport.send(message);
+  }
+
+  private settle(id: JsonRpcId, result: unknown, error?: Error): void {
+    const pending = this.pending.get(id);
+    if (!pending) return;
+    this.pending.delete(id);
+    clearTimeout(pending.timer);
+    if (error) pending.reject(error);
+    else pending.resolve(result);
+  }
+
+  private failPending(error: Error): void {
+    for (const id of [...this.pending.keys()]) this.settle(id, undefined, error);
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    // Response to one of our requests
+    if ('id' in message && !('method' in message)) {
+      const response = message as JsonRpcResponse;
+      const error = response.error && new McpError(response.error.code, response.error.message, response.error.data);
+      this.settle(response.id, response.result, error);
+      return;
+    }
+
+    // Request from the server - only ping is supported
+    if ('id' in message) {
+      const reply: JsonRpcResponse = message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+      this.transport.send(reply).catch(error => this.emit('error', error));
+      return;
+    }
+
+    // Notification
+    if (message.method === 'notifications/progress') {
+      const { progressToken, ...progress } = (message.params ?? {}) as any;
+      this.progressHandlers.get(progressToken)?.(progress);
+    }
+    this.emit(message.method, message.params ?? {});
+  }
+
+  private emit(method: string, params: unknown): void {
+    this.listeners.get(method)?.forEach((fn) => {
+      try {
+        (fn as any)(params);
+      } catch (e) {
+        console.error(`Error in MCP handler for ${method}:`, e);
+      }
+    });
+  }
+}
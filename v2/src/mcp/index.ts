@@ -0,0 +1,20 @@
+export { McpToolBridge, mcpResultToToolResult } from './bridge';
+export type { McpServerOptions } from './bridge';
+export { McpClient, McpError, MCP_PROTOCOL_VERSION } from './client';
+export type { McpClientOptions, McpTool, McpContent, McpCallToolResult } from './client';
+export {
+  StreamableHttpMcpTransport,
+  SseMcpTransport,
+  WebSocketMcpTransport,
+  createMcpTransport,
+} from './transport';
+export type {
+  McpTransport,
+  McpHttpTransportOptions,
+  McpWebSocketTransportOptions,
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcRequest,
+  JsonRpcNotification,
+  JsonRpcResponse,
+} from './transport';
@@ -0,0 +1,313 @@
+// =============================================================================
+// MCP Transports
+// Browser-reachable transports for the Model Context Protocol: streamable
+// HTTP, the older HTTP+SSE transport and WebSocket. Each one moves JSON-RPC
+// messages; McpClient speaks the protocol on top.
+// =============================================================================
+
+import { SseDecoder, readSseEvents } from '../transport/sse-decoder';
+import type { McpServerRef } from '../types';
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * Moves JSON-RPC messages between McpClient and a server. Implement it to
+ * connect to anything else - an in-process server stub, a worker, ...
+ */
+export interface McpTransport {
+  start(): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+  onmessage?: (message: JsonRpcMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+  setProtocolVersion?(version: string): void; // Called once initialize has negotiated the version
+}
+
+export interface McpHttpTransportOptions {
+  headers?: Record<string, string>; // For auth: Bearer tokens, etc.
+}
+
+/**
+ * Streamable HTTP transport (MCP 2025-03-26): every message is POSTed to the
+ * endpoint, which answers with JSON or an event stream. Server-initiated
+ * messages arrive on an optional GET event stream.
+ */
+export class StreamableHttpMcpTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  private sessionId?: string;
+  private protocolVersion?: string;
+  private controller = new AbortController();
+  private listening = false;
+
+  constructor(private url: string, private options: McpHttpTransportOptions = {}) {}
+
+  async start(): Promise<void> {}
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const res = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        ...this.sessionHeaders(),
+        ...this.options.headers,
+      },
+      body: JSON.stringify(message),
+      signal: this.controller.signal,
+    });
+
+    const sessionId = res.headers.get('mcp-session-id');
+    if (sessionId) this.sessionId = sessionId;
+
+    if (!res.ok) {
+      const errorText = await res.text().catch(() => '');
+      throw new Error(`MCP request failed: ${res.status} ${errorText}`);
+    }
+
+    if ('method' in message && message.method === 'initialize') this.listenAfterInitialize();
+
+    if (res.status === 202 || !res.body) return;
+
+    const contentType = res.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      // Read in the background - the response may stay open for progress notifications
+      this.readStream(res.body);
+    } else if (contentType.includes('application/json')) {
+      const body = await res.json();
+      for (const m of Array.isArray(body) ? body : [body]) this.receive(m);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.controller.abort();
+    if (this.sessionId) {
+      // Best effort - the server may not support explicit termination
+      await fetch(this.url, { method: 'DELETE', headers: { ...this.sessionHeaders(), ...this.options.headers } })
+        .catch(() => {});
+    }
+    this.onclose?.();
+  }
+
+  /**
+   * Remember the protocol version negotiated by initialize - it is sent on every later request
+   */
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  private sessionHeaders(): Record<string, string> {
+    return {
+      ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+      ...(this.protocolVersion ? { 'MCP-Protocol-Version': this.protocolVersion } : {}),
+    };
+  }
+
+  // Open the GET stream for server-initiated messages once the session exists
+  private listenAfterInitialize(): void {
+    if (this.listening) return;
+    this.listening = true;
+    // Deferred so the initialize response is handled (and initialized sent) first
+    setTimeout(() => this.listen(), 0);
+  }
+
+  private async listen(): Promise<void> {
+    try {
+      const res = await fetch(this.url, {
+        method: 'GET',
+        headers: { 'Accept': 'text/event-stream', ...this.sessionHeaders(), ...this.options.headers },
+        signal: this.controller.signal,
+      });
+      // 405: the server does not offer a stream - notifications only come with responses
+      if (!res.ok || !res.body) return;
+      await this.readStream(res.body);
+    } catch (error: any) {
+      if (error.name !== 'AbortError') this.onerror?.(error);
+    }
+  }
+
+  private async readStream(body: ReadableStream<Uint8Array>): Promise<void> {
+    try {
+      for await (const sse of readSseEvents(body, new SseDecoder())) {
+        if (sse.type !== 'message' || !sse.data) continue;
+        try {
+          this.receive(JSON.parse(sse.data));
+        } catch {
+          console.warn('Failed to parse MCP message:', sse.data);
+        }
+      }
+    } catch (error: any) {
+      if (error.name !== 'AbortError') this.onerror?.(error);
+    }
+  }
+
+  private receive(message: JsonRpcMessage): void {
+    this.onmessage?.(message);
+  }
+}
+
+/**
+ * HTTP+SSE transport (MCP 2024-11-05): server messages arrive on a GET event
+ * stream, whose first `endpoint` event names the URL to POST messages to.
+ */
+export class SseMcpTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  private endpoint?: string;
+  private controller = new AbortController();
+
+  constructor(private url: string, private options: McpHttpTransportOptions = {}) {}
+
+  async start(): Promise<void> {
+    const res = await fetch(this.url, {
+      headers: { 'Accept': 'text/event-stream', ...this.options.headers },
+      signal: this.controller.signal,
+    });
+    if (!res.ok || !res.body) {
+      throw new Error(`Failed to open MCP event stream: ${res.status}`);
+    }
+
+    const events = readSseEvents(res.body, new SseDecoder());
+
+    // Wait for the endpoint (without ending the stream), then keep reading in the background
+    while (!this.endpoint) {
+      const { done, value } = await events.next();
+      if (done) throw new Error('MCP event stream closed before sending an endpoint');
+      if (value.type === 'endpoint') this.endpoint = new URL(value.data, this.url).toString();
+    }
+
+    (async () => {
+      try {
+        for await (const sse of events) {
+          if (sse.type !== 'message') continue;
+          try {
+            this.onmessage?.(JSON.parse(sse.data));
+          } catch {
+            console.warn('Failed to parse MCP message:', sse.data);
+          }
+        }
+        this.onclose?.();
+      } catch (error: any) {
+        if (error.name !== 'AbortError') this.onerror?.(error);
+      }
+    })();
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.endpoint) throw new Error('MCP transport is not started');
+    const res = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: JSON.stringify(message),
+      signal: this.controller.signal,
+    });
+    if (!res.ok) {
+      const errorText = await res.text().catch(() => '');
+      throw new Error(`MCP request failed: ${res.status} ${errorText}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.controller.abort();
+    this.onclose?.();
+  }
+}
+
+export interface McpWebSocketTransportOptions {
+  protocols?: string | string[]; // Default: 'mcp'
+  WebSocketImpl?: typeof WebSocket; // For non-browser environments
+}
+
+/**
+ * WebSocket transport: one JSON-RPC message per text frame
+ */
+export class WebSocketMcpTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+
+  private socket: WebSocket | null = null;
+
+  constructor(private url: string, private options: McpWebSocketTransportOptions = {}) {}
+
+  start(): Promise<void> {
+    const WebSocketImpl = this.options.WebSocketImpl ?? WebSocket;
+    const socket = new WebSocketImpl(this.url, this.options.protocols ?? 'mcp');
+    this.socket = socket;
+
+    return new Promise((resolve, reject) => {
+      socket.onopen = () => resolve();
+      socket.onerror = () => {
+        const error = new Error(`MCP WebSocket error: ${this.url}`);
+        reject(error);
+        this.onerror?.(error);
+      };
+      socket.onclose = () => this.onclose?.();
+      socket.onmessage = (event) => {
+        try {
+          this.onmessage?.(JSON.parse(String(event.data)));
+        } catch {
+          console.warn('Failed to parse MCP message:', event.data);
+        }
+      };
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.socket || this.socket.readyState !== 1) throw new Error('MCP WebSocket is not open');
+    this.socket.send(JSON.stringify(message));
+  }
+
+  async close(): Promise<void> {
+    this.socket?.close();
+    this.socket = null;
+  }
+}
+
+/**
+ * Create the transport for a server reference
+ */
+export function createMcpTransport(
+  server: McpServerRef,
+  options: McpHttpTransportOptions & McpWebSocketTransportOptions = {}
+): McpTransport {
+  if (!server.uri) throw new Error(`MCP server "${server.name}" has no uri`);
+
+  switch (server.transport) {
+    case 'http':
+      return new StreamableHttpMcpTransport(server.uri, options);
+    case 'sse':
+      return new SseMcpTransport(server.uri, options);
+    case 'ws':
+      return new WebSocketMcpTransport(server.uri, options);
+    default:
+      throw new Error(`MCP transport "${server.transport}" is not reachable from the browser`);
+  }
+}
@@ -0,0 +1,244 @@
+// =============================================================================
+// Partial JSON
+// Tolerant parser for JSON that is still streaming in (TOOL_CALL_ARGS deltas).
+// Returns the best-effort value of the text so far: open objects, arrays and
+// strings are closed, and anything that is not yet meaningful - a half-written
+// key, `tru`, a lone `-` - is left out. It never throws.
+// =============================================================================
+
+/**
+ * Parse possibly incomplete JSON
+ * @returns The value so far, or undefined when nothing usable has arrived
+ *
+ * @example
+ * ```ts
+ * parsePartialJson('{"title": "Quarterly rep');   // { title: 'Quarterly rep' }
+ * parsePartialJson('{"tags": ["a", "b"], "dra');  // { tags: ['a', 'b'] }
+ * ```
+ */
+export function parsePartialJson(text: string): unknown {
+  const parser = new PartialJsonParser();
+  parser.push(text);
+  return parser.value;
+}
+
+export type PartialJsonPath = (string | number)[];
+
+/**
+ * A value set while parsing - `path` is [] for the root. Objects and arrays
+ * arrive empty and are filled by the updates below them.
+ */
+export interface PartialJsonUpdate {
+  path: PartialJsonPath;
+  value: unknown;
+}
+
+type Frame =
+  | { kind: 'object'; path: PartialJsonPath; expect: 'key' | 'colon' | 'value'; key?: string }
+  | { kind: 'array'; path: PartialJsonPath; length: number };
+
+// The scalar being read - `slot` is where it goes (none for object keys)
+type Token =
+  | { kind: 'string'; text: string; escape?: string; slot?: PartialJsonPath }
+  | { kind: 'number'; text: string; slot: PartialJsonPath }
+  | { kind: 'literal'; text: string; slot: PartialJsonPath };
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+const LITERALS: Record<string, true | false | null> = { true: true, false: false, null: null };
+
+// A number still being written, and the longest prefix that is one on its own ('1.' -> 1, '-' -> nothing)
+const NUMBER_PREFIX = /^-?\d*(\.\d*)?([eE][+-]?\d*)?$/;
+const USABLE_NUMBER = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/;
+
+/**
+ * Incremental parsePartialJson - text is pushed as it streams in and read
+ * once, resuming where the previous push stopped. Each push returns the
+ * values it set, so a copy of the result can be updated in place.
+ *
+ * @example
+ * ```ts
+ * const parser = new PartialJsonParser();
+ * parser.push('{"title": "Quar');  // [{ path: [], value: {} }, { path: ['title'], value: 'Quar' }]
+ * parser.push('terly"}');          // [{ path: ['title'], value: 'Quarterly' }]
+ * parser.value;                    // { title: 'Quarterly' }
+ * ```
+ */
+export class PartialJsonParser {
+  private root: { value?: unknown } = {};
+  private stack: Frame[] = [];
+  private token?: Token;
+  private started = false;
+  private stopped = false; // Root value complete, or malformed input - the rest is ignored
+  private updates: PartialJsonUpdate[] = [];
+  private consumed = 0;
+
+  /**
+   * The value so far, or undefined when nothing usable has arrived
+   */
+  get value(): unknown {
+    return this.root.value;
+  }
+
+  /**
+   * Characters pushed so far
+   */
+  get length(): number {
+    return this.consumed;
+  }
+
+  push(text: string): PartialJsonUpdate[] {
+    this.updates = [];
+    this.consumed += text.length;
+    for (let i = 0; i < text.length && !this.stopped; i++) this.read(text[i]);
+
+    // Strings and numbers still being written show what they have so far
+    const token = this.token;
+    if (token?.kind === 'string' && token.slot) this.set(token.slot, token.text);
+    if (token?.kind === 'number') this.setNumber(token);
+    return this.updates;
+  }
+
+  private read(ch: string): void {
+    if (this.token && this.readToken(this.token, ch)) return;
+    if (this.stopped) return;
+
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      if (this.started) this.stopped = true;
+      else if (!isWhitespace(ch)) this.startValue(ch, []);
+      return;
+    }
+    if (isWhitespace(ch)) return;
+
+    if (frame.kind === 'array') {
+      if (ch === ',') return;
+      if (ch === ']') {
+        this.stack.pop();
+        return;
+      }
+      this.startValue(ch, [...frame.path, frame.length++]);
+      return;
+    }
+
+    switch (frame.expect) {
+      case 'key':
+        if (ch === ',') return;
+        if (ch === '}') {
+          this.stack.pop();
+          return;
+        }
+        // A key only counts once it is complete and followed by its value
+        if (ch === '"') this.token = { kind: 'string', text: '' };
+        else this.stopped = true;
+        return;
+      case 'colon':
+        if (ch === ':') frame.expect = 'value';
+        else this.stopped = true;
+        return;
+      case 'value':
+        frame.expect = 'key';
+        this.startValue(ch, [...frame.path, frame.key!]);
+        return;
+    }
+  }
+
+  private startValue(ch: string, slot: PartialJsonPath): void {
+    this.started = true;
+    if (ch === '{') {
+      this.set(slot, {});
+      this.stack.push({ kind: 'object', path: slot, expect: 'key' });
+    } else if (ch === '[') {
+      this.set(slot, []);
+      this.stack.push({ kind: 'array', path: slot, length: 0 });
+    } else if (ch === '"') {
+      this.token = { kind: 'string', text: '', slot };
+    } else if (ch === '-' || (ch >= '0' && ch <= '9')) {
+      this.token = { kind: 'number', text: ch, slot };
+    } else {
+      this.token = { kind: 'literal', text: '', slot };
+      this.readToken(this.token, ch);
+    }
+  }
+
+  // false when the token ended before ch, which then belongs to the container
+  private readToken(token: Token, ch: string): boolean {
+    if (token.kind === 'number') {
+      if (NUMBER_PREFIX.test(token.text + ch)) {
+        token.text += ch;
+        return true;
+      }
+      this.token = undefined;
+      if (!this.setNumber(token)) this.stopped = true;
+      return false;
+    }
+
+    if (token.kind === 'literal') {
+      const text = token.text + ch;
+      const word = Object.keys(LITERALS).find(w => w.startsWith(text));
+      if (!word) {
+        this.token = undefined;
+        this.stopped = true;
+      } else if (word === text) {
+        this.token = undefined;
+        this.set(token.slot, LITERALS[word]);
+      } else {
+        token.text = text;
+      }
+      return true;
+    }
+
+    // Escapes - a half-received escape is dropped until the rest arrives
+    if (token.escape !== undefined) {
+      if (token.escape === '' && ch !== 'u') {
+        token.text += ESCAPES[ch] ?? ch;
+        token.escape = undefined;
+      } else {
+        token.escape += ch;
+        if (token.escape.length === 5) {
+          token.text += String.fromCharCode(parseInt(token.escape.slice(1), 16));
+          token.escape = undefined;
+        }
+      }
+    } else if (ch === '\\') {
+      token.escape = '';
+    } else if (ch === '"') {
+      this.token = undefined;
+      this.endString(token);
+    } else {
+      token.text += ch;
+    }
+    return true;
+  }
+
+  private endString(token: Extract<Token, { kind: 'string' }>): void {
+    if (token.slot) {
+      this.set(token.slot, token.text);
+      return;
+    }
+    const frame = this.stack[this.stack.length - 1] as Extract<Frame, { kind: 'object' }>;
+    frame.key = token.text;
+    frame.expect = 'colon';
+  }
+
+  private setNumber(token: Extract<Token, { kind: 'number' }>): boolean {
+    const usable = USABLE_NUMBER.exec(token.text);
+    if (usable) this.set(token.slot, Number(usable[0]));
+    return !!usable;
+  }
+
+  // Record an update and apply it to our own copy of the value
+  private set(path: PartialJsonPath, value: unknown): void {
+    this.updates.push({ path, value });
+    let node: any = this.root;
+    let key: string | number = 'value';
+    for (const segment of path) {
+      node = node[key];
+      key = segment;
+    }
+    node[key] = Array.isArray(value) ? [] : value && typeof value === 'object' ? {} : value;
+  }
+}
+
+function isWhitespace(ch: string): boolean {
+  return /\s/.test(ch);
+}
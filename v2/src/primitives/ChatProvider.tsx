@@ -1,7 +1,11 @@
 import { createContext, useContext, JSX, createEffect, onCleanup } from 'solid-js';
-import type { AgUiClient, AttachmentDoc, RegisteredTool } from '../types';
+import { createStore, produce } from 'solid-js/store';
+import type { AgUiClient, AttachmentDoc, McpServerRef, RegisteredTool, ToolApprovalPolicy, ToolComponent } from '../types';
 import { createAgUiStore, AgUiStore } from '../store/createAgUiStore';
 import { ToolExecutor } from '../tool-executor';
+import { McpToolBridge } from '../mcp/bridge';
+import type { McpServerOptions } from '../mcp/bridge';
+import type { ChatCache } from '../storage/cache';
 
 export interface ChatProviderProps {
   client: AgUiClient;
@@ -10,6 +14,18 @@ export interface ChatProviderProps {
   initialConversationId?: string;
   // V2: Tool registration
   tools?: RegisteredTool[]; // Provider-level tools available to all conversations
+  defaultToolPolicy?: ToolApprovalPolicy; // For tools without a policy (default: 'auto')
+  defaultToolTimeoutMs?: number; // For tools without a timeoutMs (default: none)
+  maxConcurrentTools?: number; // Tool handlers running at once (default: 4)
+  // V2: Generative UI - components rendered by <ToolCallView>, by tool name
+  toolComponents?: Record<string, ToolComponent<any>>;
+  // V2: MCP servers whose tools are registered alongside `tools`
+  mcpServers?: McpServerRef[];
+  mcpOptions?: (server: McpServerRef) => McpServerOptions; // Per-server auth headers, prefixes, policies
+  // Offline-first: show cached conversations at once, revalidate in the background
+  cache?: ChatCache;
+  // Messages per history page - older ones load on demand (default: 50, 0 loads everything)
+  messagePageSize?: number;
   children: JSX.Element;
 }
 
@@ -17,31 +33,75 @@ export interface ChatContextValue extends AgUiStore {
   upload?: (files: File[]) => Promise<AttachmentDoc[]>;
   sessionId?: string;
   initialConversationId?: string;
+  // Generative UI registry (tool name -> component)
+  toolComponents: Record<string, ToolComponent<any>>;
+  registerToolComponent: (toolName: string, component: ToolComponent<any>) => () => void;
+  mcp?: McpToolBridge; // Set when mcpServers are given
 }
 
 const ChatContext = createContext<ChatContextValue>();
 
 export function ChatProvider(props: ChatProviderProps) {
-  // V2: Create tool executor if tools are provided
-  const toolExecutor = props.tools ? new ToolExecutor() : undefined;
+  // V2: Tool executor - always available so components can register tools (useRegisterTool)
+  const toolExecutor = new ToolExecutor({
+    defaultPolicy: props.defaultToolPolicy,
+    defaultTimeoutMs: props.defaultToolTimeoutMs,
+    maxConcurrency: props.maxConcurrentTools,
+  });
 
   // Register provider-level tools
   createEffect(() => {
-    if (toolExecutor && props.tools) {
-      for (const { tool, handler } of props.tools) {
-        toolExecutor.registerTool(tool, handler);
-      }
-    }
+    const unregisters = (props.tools ?? []).map(({ tool, handler, policy, retry, timeoutMs, conversationId }) =>
+      toolExecutor.registerTool(tool, handler, { policy, retry, timeoutMs, conversationId })
+    );
+    onCleanup(() => unregisters.forEach(unregister => unregister()));
   });
 
-  // Cleanup tool executor on unmount
-  onCleanup(() => {
-    toolExecutor?.destroy();
+  // Connect MCP servers - each one registers its tools once connected
+  const mcp = props.mcpServers ? new McpToolBridge(toolExecutor) : undefined;
+  if (mcp) {
+    for (const server of props.mcpServers!) {
+      mcp.addServer(server, props.mcpOptions?.(server)).catch(error => {
+        console.error(`Failed to connect MCP server "${server.name}":`, error);
+      });
+    }
+  }
+
+  // Generative UI registry - reactive so views update when components register
+  const [toolComponents, setToolComponents] = createStore<Record<string, ToolComponent<any>>>({});
+
+  const registerToolComponent = (toolName: string, component: ToolComponent<any>) => {
+    setToolComponents(toolName, () => component);
+    return () => {
+      if (toolComponents[toolName] !== component) return;
+      setToolComponents(produce(components => {
+        delete components[toolName];
+      }));
+    };
+  };
+
+  createEffect(() => {
+    for (const [toolName, component] of Object.entries(props.toolComponents ?? {})) {
+      registerToolComponent(toolName, component);
+    }
+    for (const { tool, component } of props.tools ?? []) {
+      if (component) registerToolComponent(tool.name, component);
+    }
   });
 
   const store = createAgUiStore({
     client: props.client,
     toolExecutor,
+    cache: props.cache,
+    messagePageSize: props.messagePageSize,
+  });
+
+  // Cleanup on unmount - the store flushes pending cache writes and drops its
+  // window listeners before the tool executor goes away
+  onCleanup(() => {
+    store.close();
+    mcp?.close();
+    toolExecutor.destroy();
   });
 
   const contextValue: ChatContextValue = {
@@ -49,6 +109,9 @@ export function ChatProvider(props: ChatProviderProps) {
     upload: props.upload,
     sessionId: props.sessionId,
     initialConversationId: props.initialConversationId,
+    toolComponents,
+    registerToolComponent,
+    mcp,
   };
 
   return (
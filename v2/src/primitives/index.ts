@@ -14,8 +14,22 @@ export type { UseConversationReturn, UseConversationOptions } from './useConvers
 
 export { useMessages } from './useMessages';
 export { useStreamingText } from './useStreamingText';
+export { useBranches } from './useBranches';
+
+// Shared agent state
+export { useAgentState } from './useAgentState';
+export type { UseAgentStateReturn } from './useAgentState';
+
+// Run lifecycle Hooks
+export { useRun } from './useRun';
+export { useSteps } from './useSteps';
+export { useThinking } from './useThinking';
 
 // V2: Tool Execution Hooks
 export { useToolCalls } from './useToolCalls';
 export { useToolExecution } from './useToolExecution';
+export { useToolCall } from './useToolCall';
+export { useStreamingToolArgs } from './useStreamingToolArgs';
 export { usePendingTools } from './usePendingTools';
+export { useRegisterTool } from './useRegisterTool';
+export type { UseRegisterToolOptions } from './useRegisterTool';
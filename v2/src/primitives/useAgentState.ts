@@ -0,0 +1,64 @@
+import { createMemo } from 'solid-js';
+import { unwrap } from 'solid-js/store';
+import { useChatContext } from './ChatProvider';
+import type { Id } from '../types';
+
+export interface UseAgentStateReturn<T> {
+  state: () => T | undefined;
+  setState: (next: T | ((prev: T | undefined) => T)) => void;
+  isStale: () => boolean;
+}
+
+/**
+ * Typed access to the agent's shared state for a conversation
+ * (STATE_SNAPSHOT / STATE_DELTA). Local updates made with `setState` are
+ * sent back to the agent as `RunAgentInput.state` on the next run.
+ *
+ * @example
+ * ```tsx
+ * interface PlannerState { steps: string[] }
+ * const { state, setState } = useAgentState<PlannerState>();
+ *
+ * <For each={state()?.steps}>{step => <li>{step}</li>}</For>
+ * <button onClick={() => setState(prev => ({ steps: [...(prev?.steps || []), 'Review'] }))}>
+ *   Add step
+ * </button>
+ * ```
+ */
+export function useAgentState<T = unknown>(
+  conversationId?: Id | (() => Id | undefined)
+): UseAgentStateReturn<T> {
+  const ctx = useChatContext();
+
+  const cid = createMemo(() => {
+    const idValue = typeof conversationId === 'function' ? conversationId() : conversationId;
+    return idValue || ctx.state.activeConversationId;
+  });
+
+  const state = createMemo(() => {
+    const id = cid();
+    return id ? (ctx.state.agentStateByConversation[id] as T | undefined) : undefined;
+  });
+
+  // True while a failed delta is waiting for a fresh snapshot
+  const isStale = createMemo(() => {
+    const id = cid();
+    return id ? !!ctx.state.agentStateStale[id] : false;
+  });
+
+  const setState = (next: T | ((prev: T | undefined) => T)) => {
+    const id = cid();
+    if (!id) {
+      throw new Error('No active conversation');
+    }
+    const prev = unwrap(state());
+    const value = typeof next === 'function' ? (next as (prev: T | undefined) => T)(prev) : next;
+    ctx.setAgentState(id, value);
+  };
+
+  return {
+    state,
+    setState,
+    isStale,
+  };
+}
@@ -0,0 +1,63 @@
+import { createMemo } from 'solid-js';
+import { useChatContext } from './ChatProvider';
+import type { Id, MessageDoc } from '../types';
+import { getChildMessages } from '../store/state';
+
+/**
+ * Hook for "< 2/3 >" navigation between the versions of a message
+ * created by editing it or regenerating it
+ */
+export function useBranches(messageId: Id | (() => Id | undefined)) {
+  const store = useChatContext();
+
+  const id = createMemo(() => (typeof messageId === 'function' ? messageId() : messageId));
+
+  /**
+   * All versions of this message (siblings sharing its parent), in branch order
+   */
+  const siblings = createMemo((): MessageDoc[] => {
+    const m = id() ? store.state.messages[id()!] : undefined;
+    if (!m?.conversationId) return [];
+    return getChildMessages(store.state, m.conversationId, m.parentId ?? null);
+  });
+
+  /**
+   * Zero-based position of this message among its siblings
+   */
+  const index = createMemo(() => siblings().findIndex(m => m.id === id()));
+
+  /**
+   * Number of versions
+   */
+  const count = createMemo(() => siblings().length);
+
+  const hasPrevious = createMemo(() => index() > 0);
+  const hasNext = createMemo(() => index() >= 0 && index() < count() - 1);
+
+  const select = (i: number) => {
+    const target = siblings()[i];
+    if (target) store.selectBranch(target.id);
+  };
+
+  return {
+    /**
+     * Sibling messages (including this one)
+     */
+    siblings,
+
+    /**
+     * Position and total, e.g. `${index() + 1}/${count()}`
+     */
+    index,
+    count,
+
+    /**
+     * Navigation
+     */
+    hasPrevious,
+    hasNext,
+    previous: () => select(index() - 1),
+    next: () => select(index() + 1),
+    select,
+  };
+}
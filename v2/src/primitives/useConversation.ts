@@ -2,13 +2,20 @@ import { createMemo, createEffect } from 'solid-js';
 import { useChatContext } from './ChatProvider';
 import type { MessageDoc, Id } from '../types';
 import type { Tool } from '@ag-ui/core';
+import { getActivePath } from '../store/state';
 
 export interface UseConversationReturn {
   messages: () => MessageDoc[];
   isStreaming: () => boolean;
   load: () => Promise<void>;
+  loadOlder: () => Promise<void>; // The page before the oldest loaded message
+  hasMore: () => boolean; // Older messages are left to load
+  isLoadingOlder: () => boolean;
   send: (text: string, opts?: { attachments?: Id[]; tools?: Tool[] }) => Promise<void>; // V2: Add tools option
+  retry: (messageId: Id, opts?: { tools?: Tool[] }) => Promise<void>; // Resend a 'failed' message
   cancel: (messageId: Id) => Promise<void>;
+  edit: (messageId: Id, text: string, opts?: { attachments?: Id[]; tools?: Tool[] }) => Promise<void>; // New sibling branch
+  regenerate: (messageId: Id, opts?: { tools?: Tool[] }) => Promise<void>; // New sibling reply
 }
 
 export interface UseConversationOptions {
@@ -37,21 +44,29 @@ export function useConversation(
     });
   }
 
+  // Only the selected branch of the message tree is shown
   const messages = createMemo(() => {
     const cid = conversationId();
     if (!cid) return [];
-
-    const messageIds = ctx.state.messagesByConversation[cid] || [];
-    return messageIds
-      .map(mid => ctx.state.messages[mid])
-      .filter(Boolean)
-      .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime());
+    return getActivePath(ctx.state, cid);
   });
 
   const isStreaming = createMemo(() => {
     return messages().some(m => m.status === 'streaming');
   });
 
+  // Unknown (e.g. messages from the cache) counts as more, once anything is loaded
+  const hasMore = createMemo(() => {
+    const cid = conversationId();
+    if (!cid) return false;
+    return ctx.state.messageHistory[cid]?.hasMore ?? Boolean(ctx.state.messagesByConversation[cid]?.length);
+  });
+
+  const isLoadingOlder = createMemo(() => {
+    const cid = conversationId();
+    return Boolean(cid && ctx.state.messageHistory[cid]?.loading);
+  });
+
   const load = async () => {
     const cid = conversationId();
     if (!cid) {
@@ -60,27 +75,45 @@ export function useConversation(
     await ctx.loadMessages(cid);
   };
 
-  const send = async (text: string, opts?: { attachments?: Id[]; tools?: Tool[] }) => {
+  const loadOlder = async () => {
     const cid = conversationId();
     if (!cid) {
-      throw new Error('No active conversation');
+      throw new Error('No conversation ID provided');
     }
+    await ctx.loadOlderMessages(cid);
+  };
 
-    // V2: Merge provider-level tools with per-message tools
-    let tools = opts?.tools;
+  // V2: Merge the tools in this conversation's scope with per-message tools
+  const withProviderTools = (tools?: Tool[]) => {
     if (ctx.toolExecutor) {
-      const providerTools = ctx.toolExecutor.getTools();
+      const providerTools = ctx.toolExecutor.getTools(conversationId());
       if (providerTools.length > 0) {
-        tools = tools ? [...providerTools, ...tools] : providerTools;
+        return tools ? [...providerTools, ...tools] : providerTools;
       }
     }
+    return tools;
+  };
+
+  const send = async (text: string, opts?: { attachments?: Id[]; tools?: Tool[] }) => {
+    const cid = conversationId();
+    if (!cid) {
+      throw new Error('No active conversation');
+    }
 
     await ctx.sendMessage(cid, text, {
       attachments: opts?.attachments,
-      tools, // V2: Pass merged tools
+      tools: withProviderTools(opts?.tools), // V2: Pass merged tools
     });
   };
 
+  const retry = async (messageId: Id, opts?: { tools?: Tool[] }) => {
+    const cid = conversationId();
+    if (!cid) {
+      throw new Error('No active conversation');
+    }
+    await ctx.retryMessage(cid, messageId, { tools: withProviderTools(opts?.tools) });
+  };
+
   const cancel = async (messageId: Id) => {
     const cid = conversationId();
     if (!cid) {
@@ -89,11 +122,36 @@ export function useConversation(
     await ctx.cancelMessage(cid, messageId);
   };
 
+  const edit = async (messageId: Id, text: string, opts?: { attachments?: Id[]; tools?: Tool[] }) => {
+    const cid = conversationId();
+    if (!cid) {
+      throw new Error('No active conversation');
+    }
+    await ctx.editMessage(cid, messageId, text, {
+      attachments: opts?.attachments,
+      tools: withProviderTools(opts?.tools),
+    });
+  };
+
+  const regenerate = async (messageId: Id, opts?: { tools?: Tool[] }) => {
+    const cid = conversationId();
+    if (!cid) {
+      throw new Error('No active conversation');
+    }
+    await ctx.regenerate(cid, messageId, { tools: withProviderTools(opts?.tools) });
+  };
+
   return {
     messages,
     isStreaming,
     load,
+    loadOlder,
+    hasMore,
+    isLoadingOlder,
     send,
+    retry,
     cancel,
+    edit,
+    regenerate,
   };
 }
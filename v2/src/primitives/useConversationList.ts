@@ -1,6 +1,7 @@
 import { createMemo, onMount } from 'solid-js';
 import { useChatContext } from './ChatProvider';
 import type { ConversationDoc, Id } from '../types';
+import type { SyncConflict } from '../store/state';
 
 export interface UseConversationListReturn {
   conversations: () => ConversationDoc[];
@@ -9,6 +10,9 @@ export interface UseConversationListReturn {
   create: (title?: string, metadata?: Record<string, unknown>) => Promise<ConversationDoc>;
   setActive: (id: Id) => void;
   archive: (id: Id) => Promise<void>;
+  update: (id: Id, updates: Partial<ConversationDoc>) => Promise<ConversationDoc>; // Optimistic
+  conflicts: () => SyncConflict[]; // Local edits that raced a server update
+  resolveConflict: (conversationId: Id, keep: 'local' | 'server') => Promise<void>;
 }
 
 export interface UseConversationListOptions {
@@ -64,6 +68,16 @@ export function useConversationList(options?: UseConversationListOptions): UseCo
     await ctx.archiveConversation(id);
   };
 
+  const update = async (id: Id, updates: Partial<ConversationDoc>) => {
+    return await ctx.updateConversation(id, updates);
+  };
+
+  const conflicts = createMemo(() => Object.values(ctx.state.syncConflicts));
+
+  const resolveConflict = async (conversationId: Id, keep: 'local' | 'server') => {
+    await ctx.resolveConflict(conversationId, keep);
+  };
+
   return {
     conversations,
     activeId,
@@ -71,5 +85,8 @@ export function useConversationList(options?: UseConversationListOptions): UseCo
     create,
     setActive,
     archive,
+    update,
+    conflicts,
+    resolveConflict,
   };
 }
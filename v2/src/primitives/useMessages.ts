@@ -1,9 +1,11 @@
 import { createMemo } from 'solid-js';
 import { useChatContext } from './ChatProvider';
 import type { MessageDoc, Id } from '../types';
+import { getActivePath } from '../store/state';
 
 /**
  * Get reactive messages array for a specific conversation
+ * (the selected branch when messages have been edited or regenerated)
  */
 export function useMessages(conversationId?: Id): () => MessageDoc[] {
   const ctx = useChatContext();
@@ -11,11 +13,6 @@ export function useMessages(conversationId?: Id): () => MessageDoc[] {
   return createMemo(() => {
     const cid = conversationId || ctx.state.activeConversationId;
     if (!cid) return [];
-
-    const messageIds = ctx.state.messagesByConversation[cid] || [];
-    return messageIds
-      .map(mid => ctx.state.messages[mid])
-      .filter(Boolean)
-      .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime());
+    return getActivePath(ctx.state, cid);
   });
 }
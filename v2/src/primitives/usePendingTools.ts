@@ -4,7 +4,8 @@ import type { Id, ToolExecution } from '../types';
 
 /**
  * Hook to access and manage pending tool calls
- * Useful for showing a list of tools awaiting execution or for manual tool execution
+ * Useful for approval prompts (tools with the 'confirm' policy wait in
+ * 'pending' until approved or rejected) and for showing tools in progress
  */
 export function usePendingTools(conversationId?: Id) {
   const store = useChatContext();
@@ -45,12 +46,26 @@ export function usePendingTools(conversationId?: Id) {
   );
 
   /**
-   * Get waiting tools (subset of pending that haven't started yet)
+   * Get waiting tools (subset of pending awaiting approval)
    */
   const waiting = createMemo(() =>
     pending().filter(t => t.status === 'pending')
   );
 
+  /**
+   * Approve a waiting tool call - it starts executing
+   */
+  const approve = (toolCallId: string) => {
+    store.toolExecutor?.approve(toolCallId);
+  };
+
+  /**
+   * Reject a waiting tool call - the agent receives a structured refusal
+   */
+  const reject = (toolCallId: string, reason?: string) => {
+    store.toolExecutor?.reject(toolCallId, reason);
+  };
+
   return {
     /**
      * All pending tool executions
@@ -78,8 +93,14 @@ export function usePendingTools(conversationId?: Id) {
     executing,
 
     /**
-     * Tools waiting to execute
+     * Tools waiting for approval
      */
     waiting,
+
+    /**
+     * Approval actions
+     */
+    approve,
+    reject,
   };
 }
@@ -0,0 +1,54 @@
+import { createEffect, onCleanup } from 'solid-js';
+import type { Tool } from '@ag-ui/core';
+import { useChatContext } from './ChatProvider';
+import type { Id, ToolApprovalPolicy, ToolComponent, ToolHandler, ToolRetryPolicy } from '../types';
+
+export interface UseRegisterToolOptions {
+  conversationId?: Id | (() => Id | undefined); // Scope the tool to one conversation (default: every conversation)
+  policy?: ToolApprovalPolicy;
+  retry?: ToolRetryPolicy;
+  timeoutMs?: number;
+  component?: ToolComponent<any>; // Rendered by <ToolCallView> for calls to this tool
+}
+
+/**
+ * Hook to register a tool while the calling component is mounted. The tool is
+ * offered to the agent (RunAgentInput.tools) only for runs in its scope, and is
+ * unregistered again on cleanup or when the scope changes. While a
+ * `conversationId` accessor returns undefined the tool is not registered.
+ *
+ * @example
+ * ```tsx
+ * useRegisterTool(highlightTool, async ({ selector }) => highlight(selector), {
+ *   conversationId: () => props.conversationId,
+ * });
+ * ```
+ */
+export function useRegisterTool(tool: Tool, handler: ToolHandler, options: UseRegisterToolOptions = {}): void {
+  const store = useChatContext();
+
+  if (!store.toolExecutor) {
+    console.warn(`Cannot register tool "${tool.name}": no tool executor available`);
+    return;
+  }
+
+  createEffect(() => {
+    const scope = options.conversationId;
+    const conversationId = typeof scope === 'function' ? scope() : scope;
+
+    // The accessor has no conversation yet - registering now would offer the tool everywhere
+    if (typeof scope === 'function' && conversationId === undefined) return;
+
+    const unregister = store.toolExecutor!.registerTool(tool, handler, {
+      policy: options.policy,
+      retry: options.retry,
+      timeoutMs: options.timeoutMs,
+      conversationId,
+    });
+    onCleanup(unregister);
+  });
+
+  if (options.component) {
+    onCleanup(store.registerToolComponent(tool.name, options.component));
+  }
+}
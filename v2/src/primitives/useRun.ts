@@ -0,0 +1,83 @@
+import { createMemo } from 'solid-js';
+import { useChatContext } from './ChatProvider';
+import type { Id } from '../types';
+import type { RunRecord } from '../store/state';
+
+/**
+ * Hook to follow the latest agent run of a conversation
+ * Useful for run-level spinners, error banners and step timelines
+ */
+export function useRun(conversationId?: Id | (() => Id | undefined)) {
+  const store = useChatContext();
+
+  const cid = createMemo(() => {
+    const idValue = typeof conversationId === 'function' ? conversationId() : conversationId;
+    return idValue || store.state.activeConversationId;
+  });
+
+  /**
+   * All runs for this conversation, oldest first
+   */
+  const runs = createMemo((): RunRecord[] => {
+    const id = cid();
+    if (!id) return [];
+    return (store.state.runsByConversation[id] || [])
+      .map(runId => store.state.runs[runId])
+      .filter(Boolean);
+  });
+
+  /**
+   * Most recent run (running or settled)
+   */
+  const run = createMemo((): RunRecord | undefined => {
+    const all = runs();
+    return all[all.length - 1];
+  });
+
+  /**
+   * Current run status
+   */
+  const status = createMemo(() => run()?.status);
+
+  /**
+   * Check if the agent is currently running
+   */
+  const isRunning = createMemo(() => status() === 'running');
+
+  /**
+   * Error reported by RUN_ERROR (if the latest run failed)
+   */
+  const error = createMemo(() => run()?.error);
+
+  /**
+   * Step timeline of the latest run
+   */
+  const steps = createMemo(() => {
+    const r = run();
+    return r ? store.state.steps[r.id] || [] : [];
+  });
+
+  return {
+    /**
+     * Latest run record
+     */
+    run,
+
+    /**
+     * All runs in this conversation
+     */
+    runs,
+
+    /**
+     * Run status and flags
+     */
+    status,
+    isRunning,
+    error,
+
+    /**
+     * Steps of the latest run
+     */
+    steps,
+  };
+}
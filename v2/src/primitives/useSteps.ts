@@ -0,0 +1,41 @@
+import { createMemo } from 'solid-js';
+import { useChatContext } from './ChatProvider';
+import type { StepRecord } from '../store/state';
+
+/**
+ * Hook to access the step timeline of a run (STEP_STARTED / STEP_FINISHED)
+ */
+export function useSteps(runId: string | (() => string | undefined)) {
+  const store = useChatContext();
+
+  /**
+   * All steps of the run, in start order
+   */
+  const steps = createMemo((): StepRecord[] => {
+    const id = typeof runId === 'function' ? runId() : runId;
+    return id ? store.state.steps[id] || [] : [];
+  });
+
+  /**
+   * Step currently in progress (most recent running step)
+   */
+  const current = createMemo(() => {
+    const all = steps();
+    for (let i = all.length - 1; i >= 0; i--) {
+      if (all[i].status === 'running') return all[i];
+    }
+    return undefined;
+  });
+
+  return {
+    /**
+     * Step timeline
+     */
+    steps,
+
+    /**
+     * Step in progress, if any
+     */
+    current,
+  };
+}
@@ -0,0 +1,58 @@
+import { createMemo } from 'solid-js';
+import { useChatContext } from './ChatProvider';
+import { parsePartialArgs } from '../store/state';
+import type { Id } from '../types';
+
+/**
+ * Get a tool call's arguments while the model is still writing them
+ * Fields appear as soon as they are (partially) received, so tool UIs can
+ * render a live preview before TOOL_CALL_END
+ *
+ * @example
+ * const { args, isStreaming } = useStreamingToolArgs<{ title: string; body: string }>(toolCallId);
+ * <h1>{args().title}</h1><p>{args().body}</p>
+ */
+export function useStreamingToolArgs<TArgs = Record<string, any>>(toolCallId: string, messageId?: Id) {
+  const ctx = useChatContext();
+
+  /**
+   * The finished call, once its args are complete
+   */
+  const completed = createMemo(() => {
+    const candidates = messageId && ctx.state.messages[messageId]
+      ? [ctx.state.messages[messageId]]
+      : Object.values(ctx.state.messages);
+    for (const msg of candidates) {
+      const tc = msg.toolCalls?.find(t => t.id === toolCallId);
+      if (tc) return tc;
+    }
+    return undefined;
+  });
+
+  /**
+   * Whether args are still arriving
+   */
+  const isStreaming = createMemo(() => !!ctx.state.toolCallsInProgress[toolCallId]);
+
+  /**
+   * Raw args text received so far
+   */
+  const argsText = createMemo(() =>
+    ctx.state.toolCallsInProgress[toolCallId]?.args ?? completed()?.function.arguments ?? ''
+  );
+
+  /**
+   * Best-effort parsed args - partial while streaming, complete afterwards
+   */
+  const args = createMemo((): Partial<TArgs> => {
+    const inProgress = ctx.state.toolCallsInProgress[toolCallId];
+    if (inProgress) return inProgress.partialArgs as Partial<TArgs>;
+    return parsePartialArgs(completed()?.function.arguments ?? '') as Partial<TArgs>;
+  });
+
+  return {
+    args,
+    argsText,
+    isStreaming,
+  };
+}
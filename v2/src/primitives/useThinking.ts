@@ -0,0 +1,13 @@
+import { createMemo } from 'solid-js';
+import { useChatContext } from './ChatProvider';
+import type { Id } from '../types';
+import type { ThinkingRecord } from '../store/state';
+
+/**
+ * Get the reasoning (THINKING_* events) attached to a message, if any
+ */
+export function useThinking(messageId: Id): () => ThinkingRecord | undefined {
+  const ctx = useChatContext();
+
+  return createMemo(() => ctx.state.thinking[messageId]);
+}
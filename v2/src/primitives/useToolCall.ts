@@ -0,0 +1,120 @@
+import { createMemo } from 'solid-js';
+import { useChatContext } from './ChatProvider';
+import { useToolExecution } from './useToolExecution';
+import { useStreamingToolArgs } from './useStreamingToolArgs';
+import type { Id, MessageDoc, ToolCallStatus, ToolResult } from '../types';
+
+/**
+ * Hook combining everything known about one tool call - the streamed call
+ * from the store and its execution from the ToolExecutor. This is what
+ * <ToolCallView> passes to registered tool components.
+ */
+export function useToolCall(toolCallId: string, messageId?: Id) {
+  const store = useChatContext();
+  const { execution, progress } = useToolExecution(toolCallId);
+  const streamingArgs = useStreamingToolArgs(toolCallId, messageId);
+
+  /**
+   * The call itself - still streaming, or complete on its assistant message
+   */
+  const call = createMemo(() => {
+    const inProgress = store.state.toolCallsInProgress[toolCallId];
+    if (inProgress) {
+      return { name: inProgress.name, argsText: inProgress.args, messageId: inProgress.messageId, streaming: true };
+    }
+
+    const candidates: MessageDoc[] = messageId && store.state.messages[messageId]
+      ? [store.state.messages[messageId]]
+      : Object.values(store.state.messages);
+    for (const msg of candidates) {
+      const tc = msg.toolCalls?.find(t => t.id === toolCallId);
+      if (tc) return { name: tc.function.name, argsText: tc.function.arguments, messageId: msg.id, streaming: false };
+    }
+    return undefined;
+  });
+
+  /**
+   * Parsed arguments - partial while streaming
+   */
+  const args = createMemo((): Record<string, any> => {
+    // A validated execution has defaults applied
+    const exec = execution();
+    if (exec && !call()?.streaming) return exec.args;
+    return streamingArgs.args();
+  });
+
+  /**
+   * Tool message holding the result (for calls executed by the agent)
+   */
+  const resultMessage = createMemo(() =>
+    Object.values(store.state.messages).find(m => m.role === 'tool' && m.toolCallId === toolCallId)
+  );
+
+  /**
+   * Where the call is in its lifecycle
+   */
+  const status = createMemo((): ToolCallStatus | undefined => {
+    if (call()?.streaming) return 'streaming';
+    const exec = execution();
+    if (exec) return exec.status;
+    if (resultMessage()) return 'completed';
+    return call() ? 'received' : undefined;
+  });
+
+  /**
+   * Result - as returned by a frontend handler, or the agent-side tool message content
+   */
+  const result = createMemo((): ToolResult | undefined => execution()?.result ?? resultMessage()?.content);
+
+  /**
+   * Error of a failed call (executor error, or the failure reported to the agent)
+   */
+  const error = createMemo((): Error | undefined => {
+    const exec = execution();
+    if (exec?.error) return exec.error;
+    const failure = store.state.toolCallFailures[toolCallId];
+    return failure ? Object.assign(new Error(failure.error.message), { code: failure.error.code }) : undefined;
+  });
+
+  /**
+   * Whether the handler is waiting for the UI to respond
+   */
+  const awaitingResponse = createMemo(() => !!execution()?.awaitingResponse);
+
+  /**
+   * Resolve an interactive call (see interactiveToolHandler)
+   */
+  const respond = (value: ToolResult) => {
+    if (!store.toolExecutor?.respond(toolCallId, value)) {
+      console.warn(`Tool call ${toolCallId} is not waiting for a response`);
+    }
+  };
+
+  return {
+    /**
+     * Call identity
+     */
+    toolName: createMemo(() => call()?.name),
+    messageId: createMemo(() => call()?.messageId),
+
+    /**
+     * Arguments
+     */
+    args,
+    argsText: createMemo(() => call()?.argsText ?? ''),
+
+    /**
+     * Lifecycle and outcome
+     */
+    status,
+    result,
+    error,
+    progress,
+
+    /**
+     * Interactive tools
+     */
+    awaitingResponse,
+    respond,
+  };
+}
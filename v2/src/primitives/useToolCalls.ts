@@ -73,6 +73,14 @@ export function useToolCalls(conversationId?: Id) {
     );
   });
 
+  /**
+   * Tool calls that failed (reported back to the agent as error results)
+   */
+  const failures = createMemo(() => {
+    const cid = conversationId || store.state.activeConversationId;
+    return Object.values(store.state.toolCallFailures).filter(f => !cid || f.conversationId === cid);
+  });
+
   return {
     /**
      * All completed tool calls from messages
@@ -94,6 +102,11 @@ export function useToolCalls(conversationId?: Id) {
      */
     toolCallsInProgress,
 
+    /**
+     * Failed tool calls
+     */
+    failures,
+
     /**
      * Check if there are any pending tools
      */
@@ -1,7 +1,10 @@
-import { createMemo } from 'solid-js';
+import { createEffect, createMemo, createSignal, onCleanup } from 'solid-js';
 import { useChatContext } from './ChatProvider';
 import type { ToolExecution } from '../types';
 
+// How often `duration` updates while the tool runs
+const DURATION_TICK_MS = 100;
+
 /**
  * Hook to monitor the execution state of a specific tool call
  * Useful for showing loading indicators, results, or errors in the UI
@@ -10,12 +13,9 @@ export function useToolExecution(toolCallId: string) {
   const store = useChatContext();
 
   /**
-   * Get the execution record for this tool call
+   * Get the execution record for this tool call (reactive - executor state is a Solid store)
    */
-  const execution = createMemo((): ToolExecution | undefined => {
-    if (!store.toolExecutor) return undefined;
-    return store.toolExecutor.getExecution(toolCallId);
-  });
+  const execution = createMemo((): ToolExecution | undefined => store.toolExecutor?.getExecution(toolCallId));
 
   /**
    * Current status of the tool execution
@@ -43,22 +43,40 @@ export function useToolExecution(toolCallId: string) {
   const isFailed = createMemo(() => status() === 'failed');
 
   /**
-   * Get the tool result (if completed)
+   * Check if tool execution was canceled (timeouts count as failures)
+   */
+  const isCanceled = createMemo(() => status() === 'canceled');
+
+  /**
+   * Get the tool result (if completed) - as returned by the handler
    */
   const result = createMemo(() => execution()?.result);
 
+  /**
+   * Latest progress reported by the handler (onProgress or a yielded value)
+   */
+  const progress = createMemo(() => execution()?.progress);
+
   /**
    * Get the error (if failed)
    */
   const error = createMemo(() => execution()?.error);
 
   /**
-   * Get execution duration in milliseconds
+   * Get execution duration in milliseconds - ticks while the tool is executing
    */
+  const [now, setNow] = createSignal(Date.now());
+  createEffect(() => {
+    if (!isExecuting()) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), DURATION_TICK_MS);
+    onCleanup(() => clearInterval(timer));
+  });
+
   const duration = createMemo(() => {
     const exec = execution();
     if (!exec?.startedAt) return undefined;
-    if (!exec.completedAt) return Date.now() - exec.startedAt;
+    if (!exec.completedAt) return now() - exec.startedAt;
     return exec.completedAt - exec.startedAt;
   });
 
@@ -80,12 +98,14 @@ export function useToolExecution(toolCallId: string) {
     isPending,
     isCompleted,
     isFailed,
+    isCanceled,
 
     /**
      * Result data
      */
     result,
     error,
+    progress,
 
     /**
      * Timing information
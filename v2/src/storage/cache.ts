@@ -0,0 +1,89 @@
+// =============================================================================
+// Chat Cache
+// Persistence for the store's documents (conversations, messages, attachments),
+// so a reload shows the last known state at once - also while offline.
+// =============================================================================
+
+import type { ConversationDoc, Id, MessageDoc, StateSnapshot } from '../types';
+
+/**
+ * Where the store keeps its documents between sessions. Implement it to
+ * persist anywhere else (a native bridge, OPFS, ...).
+ */
+export interface ChatCache {
+  /**
+   * Everything cached, or undefined when the cache is empty
+   */
+  load(): Promise<StateSnapshot | undefined>;
+
+  /**
+   * Upsert the snapshot's documents. Messages of the snapshot's conversations
+   * that are not in the snapshot are removed.
+   */
+  save(snapshot: StateSnapshot): Promise<void>;
+
+  /**
+   * Remove conversations and their messages (deleted on the server)
+   */
+  remove(conversationIds: Id[]): Promise<void>;
+
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory cache - for tests, SSR, or trying out offline behavior
+ */
+export class MemoryChatCache implements ChatCache {
+  private session?: { sessionId: string; revision: string; syncRevision?: string; activeConversationId?: Id };
+  private conversations = new Map<Id, ConversationDoc>();
+  private messages = new Map<Id, MessageDoc>();
+  private attachments = new Map<Id, StateSnapshot['attachments'][number]>();
+
+  async load(): Promise<StateSnapshot | undefined> {
+    if (!this.session && this.conversations.size === 0) return undefined;
+    return structuredClone({
+      sessionId: this.session?.sessionId ?? '',
+      revision: this.session?.revision ?? '0',
+      syncRevision: this.session?.syncRevision,
+      activeConversationId: this.session?.activeConversationId,
+      conversations: [...this.conversations.values()],
+      messages: [...this.messages.values()],
+      attachments: [...this.attachments.values()],
+    });
+  }
+
+  async save(snapshot: StateSnapshot): Promise<void> {
+    const copy = structuredClone(snapshot);
+    this.session = {
+      sessionId: copy.sessionId,
+      revision: copy.revision,
+      syncRevision: copy.syncRevision,
+      activeConversationId: copy.activeConversationId,
+    };
+
+    const saved = new Set(copy.messages.map(m => m.id));
+    const replaced = new Set(copy.conversations.map(c => c.id));
+    for (const [id, m] of this.messages) {
+      if (m.conversationId && replaced.has(m.conversationId) && !saved.has(id)) this.messages.delete(id);
+    }
+
+    for (const c of copy.conversations) this.conversations.set(c.id, c);
+    for (const m of copy.messages) this.messages.set(m.id, m);
+    for (const a of copy.attachments) this.attachments.set(a.id, a);
+  }
+
+  async remove(conversationIds: Id[]): Promise<void> {
+    const removed = new Set(conversationIds);
+    for (const id of removed) this.conversations.delete(id);
+    for (const [id, m] of this.messages) {
+      if (m.conversationId && removed.has(m.conversationId)) this.messages.delete(id);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.session = undefined;
+    this.conversations.clear();
+    this.messages.clear();
+    this.attachments.clear();
+  }
+}
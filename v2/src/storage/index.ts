@@ -0,0 +1,4 @@
+export { MemoryChatCache } from './cache';
+export type { ChatCache } from './cache';
+export { IndexedDBChatCache } from './indexeddb';
+export type { IndexedDBChatCacheOptions } from './indexeddb';
@@ -0,0 +1,131 @@
+// =============================================================================
+// IndexedDB Chat Cache
+// Conversations, messages and attachments each get an object store; messages
+// are indexed by conversation so a conversation's messages can be replaced.
+// =============================================================================
+
+import type { Id, StateSnapshot } from '../types';
+import type { ChatCache } from './cache';
+
+const DB_VERSION = 1;
+const STORES = ['conversations', 'messages', 'attachments', 'meta'];
+
+export interface IndexedDBChatCacheOptions {
+  dbName?: string; // Default: 'solid-ag-chat' - use one per user when several can sign in
+  indexedDB?: IDBFactory; // For non-browser environments (e.g. fake-indexeddb)
+}
+
+export class IndexedDBChatCache implements ChatCache {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private options: IndexedDBChatCacheOptions = {}) {}
+
+  async load(): Promise<StateSnapshot | undefined> {
+    const db = await this.open();
+    const tx = db.transaction(STORES, 'readonly');
+    const [conversations, messages, attachments, session] = await Promise.all([
+      request(tx.objectStore('conversations').getAll()),
+      request(tx.objectStore('messages').getAll()),
+      request(tx.objectStore('attachments').getAll()),
+      request(tx.objectStore('meta').get('session')),
+    ]);
+    if (!session && conversations.length === 0) return undefined;
+
+    return {
+      sessionId: session?.sessionId ?? '',
+      revision: session?.revision ?? '0',
+      syncRevision: session?.syncRevision,
+      activeConversationId: session?.activeConversationId,
+      conversations,
+      messages,
+      attachments,
+    };
+  }
+
+  async save(snapshot: StateSnapshot): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORES, 'readwrite');
+    const conversations = tx.objectStore('conversations');
+    const messages = tx.objectStore('messages');
+    const attachments = tx.objectStore('attachments');
+
+    tx.objectStore('meta').put({
+      sessionId: snapshot.sessionId,
+      revision: snapshot.revision,
+      syncRevision: snapshot.syncRevision,
+      activeConversationId: snapshot.activeConversationId,
+    }, 'session');
+
+    const saved = new Set(snapshot.messages.map(m => m.id));
+    for (const c of snapshot.conversations) {
+      conversations.put(c);
+      // Drop messages the conversation no longer has
+      messages.index('conversationId').getAllKeys(c.id).onsuccess = (event) => {
+        for (const key of (event.target as IDBRequest<IDBValidKey[]>).result) {
+          if (!saved.has(key as string)) messages.delete(key);
+        }
+      };
+    }
+    for (const m of snapshot.messages) messages.put(m);
+    for (const a of snapshot.attachments) attachments.put(a);
+
+    await done(tx);
+  }
+
+  async remove(conversationIds: Id[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(['conversations', 'messages'], 'readwrite');
+    const messages = tx.objectStore('messages');
+    for (const id of conversationIds) {
+      tx.objectStore('conversations').delete(id);
+      messages.index('conversationId').getAllKeys(id).onsuccess = (event) => {
+        for (const key of (event.target as IDBRequest<IDBValidKey[]>).result) messages.delete(key);
+      };
+    }
+    await done(tx);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORES, 'readwrite');
+    for (const name of STORES) tx.objectStore(name).clear();
+    await done(tx);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const factory = this.options.indexedDB ?? indexedDB;
+        const req = factory.open(this.options.dbName ?? 'solid-ag-chat', DB_VERSION);
+        req.onerror = () => reject(req.error);
+        req.onsuccess = () => resolve(req.result);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          if (!db.objectStoreNames.contains('conversations')) db.createObjectStore('conversations', { keyPath: 'id' });
+          if (!db.objectStoreNames.contains('messages')) {
+            db.createObjectStore('messages', { keyPath: 'id' }).createIndex('conversationId', 'conversationId');
+          }
+          if (!db.objectStoreNames.contains('attachments')) db.createObjectStore('attachments', { keyPath: 'id' });
+          if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta');
+        };
+      });
+      this.db.catch(() => { this.db = null; }); // Try again next time
+    }
+    return this.db;
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
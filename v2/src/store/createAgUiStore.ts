@@ -1,15 +1,38 @@
-import { createStore } from 'solid-js/store';
+import { createStore, produce, reconcile, unwrap } from 'solid-js/store';
 import { createSignal } from 'solid-js';
-import type { AgUiClient, Id, ConversationDoc } from '../types';
-import type { Tool } from '@ag-ui/core';
-import type { ChatState } from './state';
-import { initStateFromSnapshot, applyNormalizedEvent } from './state';
-import { ToolExecutor } from '../tool-executor';
+import type { AgUiClient, ChangeSet, Id, ConversationDoc, ExtendedEventPayloads, MessagePageOptions, ToolCallOutput, ToolResultOptions } from '../types';
+import type { Tool, State } from '@ag-ui/core';
+import type { ChatState, SyncConflict, ToolCallFailure } from './state';
+import {
+  applyEvent,
+  findOutboxMessage,
+  getActiveRun,
+  getBranchPath,
+  getEventConversation,
+  getEventRun,
+  hydrateFromSnapshot,
+  isUnsentMessage,
+  requeueMessage,
+  selectBranch as selectBranchIn,
+  settleOutboxMessage,
+  toSnapshot,
+} from './state';
+import { ToolExecutor, ToolRejectedError, ToolArgumentsError, ToolExecutionError } from '../tool-executor';
+import type { ChatCache } from '../storage/cache';
+
+// Events emitted by the store itself (not forwarded from the client)
+export interface AgUiStoreEvents {
+  'tool.execution.failed': ToolCallFailure;
+  'sync.conflict': SyncConflict;
+}
 
 export interface AgUiStore {
   state: ChatState;
   isConnected: () => boolean;
 
+  // Store-level events
+  on: <E extends keyof AgUiStoreEvents>(type: E, handler: (payload: AgUiStoreEvents[E]) => void) => () => void;
+
   // V2: Tool executor
   toolExecutor?: ToolExecutor;
 
@@ -19,197 +42,669 @@ export interface AgUiStore {
   setActiveConversation: (id: Id) => void;
   archiveConversation: (id: Id) => Promise<void>;
 
-  // Message management
+  // Optimistic - shown at once, reverted if the server rejects it. A server
+  // update of the same fields meanwhile is recorded in state.syncConflicts
+  updateConversation: (id: Id, updates: Partial<ConversationDoc>) => Promise<ConversationDoc>;
+  resolveConflict: (conversationId: Id, keep: 'local' | 'server') => Promise<void>;
+
+  // Incremental sync - apply the server's changes since state.syncRevision
+  // (needs client.listChanges; loadConversations uses it when available)
+  sync: () => Promise<void>;
+
+  // Offline-first cache - re-fetch conversations and the messages of those
+  // whose revision changed (runs in the background after hydration)
+  revalidate: () => Promise<void>;
+
+  // Message management - user messages show up at once ('sending') and are
+  // delivered in order per conversation; a failed one can be retried
   loadMessages: (conversationId: Id) => Promise<void>;
+  // The page before the oldest loaded message (see state.messageHistory)
+  loadOlderMessages: (conversationId: Id) => Promise<void>;
   sendMessage: (conversationId: Id | null, text: string, options?: {
     attachments?: Id[];
     metadata?: Record<string, unknown>;
     tools?: Tool[]; // V2: Pass tools for this message
   }) => Promise<void>;
+  retryMessage: (conversationId: Id, messageId: Id, options?: {
+    tools?: Tool[];
+  }) => Promise<void>;
   cancelMessage: (conversationId: Id, messageId: Id) => Promise<void>;
 
+  // Branching - edits and regenerations add a sibling branch and switch to it
+  editMessage: (conversationId: Id, messageId: Id, text: string, options?: {
+    attachments?: Id[];
+    metadata?: Record<string, unknown>;
+    tools?: Tool[];
+  }) => Promise<void>;
+  regenerate: (conversationId: Id, messageId: Id, options?: {
+    metadata?: Record<string, unknown>;
+    tools?: Tool[];
+  }) => Promise<void>;
+  selectBranch: (messageId: Id) => void;
+
+  // Shared agent state - sent back to the agent with the next run
+  setAgentState: (conversationId: Id, value: unknown) => void;
+
   close: () => void;
 }
 
 export interface CreateAgUiStoreOptions {
   client: AgUiClient;
   toolExecutor?: ToolExecutor; // V2: Optional tool executor for bidirectional tools
+  cache?: ChatCache; // Hydrate from and persist to this cache (e.g. IndexedDBChatCache)
+  cacheDelayMs?: number; // Debounce for cache writes (default: 500)
+  messagePageSize?: number; // Messages per history page (default: 50, 0 loads everything)
 }
 
+// Options of a queued user message, kept until it is delivered
+interface OutboxOptions {
+  attachments?: Id[];
+  metadata?: Record<string, unknown>;
+  tools?: Tool[];
+}
+
+// Events routed through the reducer pipeline (see applyEvent in ./state)
+const REDUCED_EVENTS = [
+  // Session / conversation / message lifecycle
+  'state.snapshot',
+  'conversation.created',
+  'conversation.updated',
+  'conversation.archived',
+  'message.created',
+  'message.delta',
+  'message.completed',
+  'message.errored',
+  'message.canceled',
+  'attachment.available',
+  'attachment.failed',
+  // Official AG-UI events
+  'MESSAGES_SNAPSHOT',
+  'TEXT_MESSAGE_START',
+  'TEXT_MESSAGE_CONTENT',
+  'TEXT_MESSAGE_END',
+  'TEXT_MESSAGE_CHUNK',
+  'TOOL_CALL_START',
+  'TOOL_CALL_ARGS',
+  'TOOL_CALL_END',
+  'TOOL_CALL_RESULT',
+  'RUN_STARTED',
+  'RUN_FINISHED',
+  'RUN_ERROR',
+  'STEP_STARTED',
+  'STEP_FINISHED',
+  'THINKING_START',
+  'THINKING_END',
+  'THINKING_TEXT_MESSAGE_START',
+  'THINKING_TEXT_MESSAGE_CONTENT',
+  'THINKING_TEXT_MESSAGE_END',
+  'RAW',
+  'CUSTOM',
+  'STATE_SNAPSHOT',
+  'STATE_DELTA',
+] as const;
+
 export function createAgUiStore(clientOrOptions: AgUiClient | CreateAgUiStoreOptions): AgUiStore {
   // Support both old API (client only) and new API (options object)
   const client = 'on' in clientOrOptions ? clientOrOptions : clientOrOptions.client;
   const toolExecutor = 'on' in clientOrOptions ? undefined : clientOrOptions.toolExecutor;
+  const cache = 'on' in clientOrOptions ? undefined : clientOrOptions.cache;
+  const cacheDelayMs = ('on' in clientOrOptions ? undefined : clientOrOptions.cacheDelayMs) ?? 500;
+  const messagePageSize = ('on' in clientOrOptions ? undefined : clientOrOptions.messagePageSize) ?? 50;
   // Initialize empty state
   const [state, setState] = createStore<ChatState>({
     revision: '0',
+    syncRevision: '0',
     conversations: {},
     messages: {},
     attachments: {},
     messagesByConversation: {},
     streaming: {},
     toolCallsInProgress: {},
+    toolCallFailures: {},
+    runs: {},
+    runsByConversation: {},
+    steps: {},
+    thinking: {},
+    agentStateByConversation: {},
+    agentStateStale: {},
+    selectedBranch: {},
+    branchHead: {},
+    syncConflicts: {},
+    messageHistory: {},
   });
 
-  const [isConnected, setIsConnected] = createSignal(true); // Always connected in REST mode
+  /**
+   * Run an event through the reducers. In-place mutations go through `produce`
+   * for fine-grained updates; snapshot events that return a replacement state
+   * are diffed in with `reconcile`.
+   */
+  const dispatch = (type: string, payload: any) => {
+    let replacement: ChatState | undefined;
+    setState(produce((draft) => {
+      const next = applyEvent(draft, type, payload);
+      if (next !== draft) replacement = next;
+    }));
+    if (replacement) setState(reconcile(replacement));
+    if (type === 'state.snapshot') markDirty();
+    else if (type !== 'sync.changes') markDirty(payload?.conversation?.id ?? payload?.message?.conversationId ?? getEventConversation(state, payload));
+  };
 
-  // Subscribe to all normalized events
-  client.on('conversation.created', (payload) => {
-    const c = (payload as any).conversation;
-    setState('conversations', c.id, c);
-    setState('activeConversationId', c.id);
-  });
+  // ==========================================================================
+  // Cache - hydrate at once, persist changes, revalidate in the background
+  // ==========================================================================
 
-  client.on('conversation.updated', (payload) => {
-    const c = (payload as any).conversation;
-    setState('conversations', c.id, c);
-  });
+  const dirtyConversations = new Set<Id>(); // Conversations to write on the next save
+  const removedConversations = new Set<Id>(); // Conversations to delete on the next save
+  let allDirty = false;
+  let saveTimer: ReturnType<typeof setTimeout> | undefined;
 
-  client.on('conversation.archived', (payload) => {
-    const id = (payload as any).conversationId;
-    setState('conversations', id, 'status', 'archived');
-  });
+  // Schedule a save of a conversation (all conversations when omitted)
+  function markDirty(conversationId?: Id) {
+    if (!cache) return;
+    if (conversationId) dirtyConversations.add(conversationId);
+    else allDirty = true;
+    if (!saveTimer) saveTimer = setTimeout(persist, cacheDelayMs);
+  }
+
+  function persist() {
+    clearTimeout(saveTimer);
+    saveTimer = undefined;
+    if (!cache) return;
+
+    if (removedConversations.size) {
+      cache.remove([...removedConversations]).catch(error => console.warn('Failed to write the chat cache:', error));
+      removedConversations.clear();
+    }
 
-  // Legacy event for user messages (backward compatibility)
-  // TODO: Migrate to TEXT_MESSAGE_* events for user messages too
-  client.on('message.created', (payload) => {
-    const m = (payload as any).message;
-    setState('messages', m.id, m);
-    setState('messagesByConversation', m.conversationId, (arr = []) =>
-      arr.includes(m.id) ? arr : [...arr, m.id]
+    const raw = unwrap(state);
+    const snapshot = toSnapshot(raw, allDirty ? undefined : [...dirtyConversations]);
+    dirtyConversations.clear();
+    allDirty = false;
+    // Streaming text lives beside the message until it completes
+    snapshot.messages = snapshot.messages.map(m =>
+      raw.streaming[m.id] ? { ...m, content: raw.streaming[m.id].text } : m
     );
-  });
+    cache.save(snapshot).catch(error => console.warn('Failed to write the chat cache:', error));
+  }
 
-  // Official AG-UI events for text streaming
-  client.on('TEXT_MESSAGE_START', (payload) => {
-    const p = payload as any;
-    const msg = {
-      id: p.messageId,
-      role: p.role || 'assistant',
-      content: '',
-      conversationId: state.activeConversationId,
-      status: 'streaming' as const,
-      createdAt: new Date().toISOString(),
-    };
-    setState('messages', msg.id, msg);
-    if (msg.conversationId) {
-      setState('messagesByConversation', msg.conversationId, (arr = []) =>
-        arr.includes(msg.id) ? arr : [...arr, msg.id]
-      );
+  // Cached documents are in the store (resolved right away without a cache)
+  const hydrated: Promise<void> = cache
+    ? cache.load().then(
+        (snapshot) => {
+          if (snapshot) setState(produce((draft) => hydrateFromSnapshot(draft, snapshot)));
+        },
+        (error) => console.warn('Failed to read the chat cache:', error)
+      )
+    : Promise.resolve();
+
+  let revalidation: Promise<void> | undefined; // The one in flight - callers share it
+
+  const revalidate = (): Promise<void> => {
+    revalidation ??= runRevalidation().finally(() => { revalidation = undefined; });
+    return revalidation;
+  };
+
+  const runRevalidation = async () => {
+    await hydrated;
+    if (client.listChanges) {
+      try {
+        await sync();
+      } catch (error) {
+        console.warn('Could not sync conversations - showing cached data:', error);
+      }
+      return;
+    }
+
+    let conversations: ConversationDoc[];
+    try {
+      conversations = await client.listConversations();
+    } catch (error) {
+      console.warn('Could not revalidate conversations - showing cached data:', error);
+      return;
     }
-    setState('streaming', msg.id, { text: '' });
-  });
 
-  client.on('TEXT_MESSAGE_CONTENT', (payload) => {
-    const { messageId, delta } = payload as any;
-    setState('streaming', messageId, (s = { text: '' }) => ({
-      text: s.text + (delta || '')
+    // Messages are only re-fetched where the conversation changed
+    const changed = conversations.filter(c =>
+      state.messagesByConversation[c.id] && state.conversations[c.id]?.revision !== c.revision
+    );
+    setState(produce((draft) => {
+      for (const c of conversations) draft.conversations[c.id] = c;
     }));
-  });
+    markDirty();
 
-  client.on('TEXT_MESSAGE_END', (payload) => {
-    const { messageId } = payload as any;
-    const streamingText = state.streaming[messageId]?.text;
-    if (streamingText) {
-      setState('messages', messageId, 'content', streamingText);
+    await Promise.all(changed.map(async (c) => {
+      try {
+        const messages = await client.getMessages(c.id, pageOptions());
+        dispatch('MESSAGES_SNAPSHOT', { conversationId: c.id, messages });
+        setState('messageHistory', c.id, { hasMore: isFullPage(messages), loading: false });
+      } catch (error) {
+        console.warn(`Could not revalidate conversation ${c.id}:`, error);
+      }
+    }));
+  };
+
+  if (cache) {
+    revalidate();
+    if (typeof window !== 'undefined') window.addEventListener('online', revalidate);
+  }
+
+  const listeners = new Map<string, Set<Function>>();
+
+  const on = <E extends keyof AgUiStoreEvents>(type: E, handler: (payload: AgUiStoreEvents[E]) => void) => {
+    const set = listeners.get(type) || new Set();
+    set.add(handler);
+    listeners.set(type, set);
+    return () => { set.delete(handler); };
+  };
+
+  const emit = <E extends keyof AgUiStoreEvents>(type: E, payload: AgUiStoreEvents[E]) => {
+    listeners.get(type)?.forEach((fn) => {
+      try {
+        fn(payload);
+      } catch (e) {
+        console.error(`Error in store handler for ${type}:`, e);
+      }
+    });
+  };
+
+  // REST clients are always connected; session-channel clients (those that
+  // can resume) are offline until the server sends client.ready
+  const hasSession = typeof client.resume === 'function';
+  const [isConnected, setIsConnected] = createSignal(!hasSession);
+  let hasBeenReady = false;
+
+  // Session lifecycle
+  client.on('client.ready', (payload) => {
+    const { sessionId } = payload as ExtendedEventPayloads['client.ready'];
+    const previousSessionId = state.sessionId;
+    setIsConnected(true);
+
+    if (hasBeenReady) {
+      // Reconnected: request a delta if the server kept our session, a full snapshot otherwise
+      if (previousSessionId === sessionId) {
+        client.resume?.(state.revision, sessionId);
+      } else {
+        client.resume?.(undefined, sessionId);
+      }
     }
-    setState('streaming', messageId, undefined!);
-    setState('messages', messageId, 'status', 'completed');
+    hasBeenReady = true;
+    setState('sessionId', sessionId);
   });
 
-  client.on('message.errored', (payload) => {
-    const { messageId } = payload as any;
-    setState('messages', messageId, 'status', 'errored');
+  client.on('client.heartbeat', () => {
+    setIsConnected(true);
+  });
+
+  client.on('client.closed', () => {
+    setIsConnected(false);
   });
 
+  for (const type of REDUCED_EVENTS) {
+    if (type === 'TOOL_CALL_END' || type === 'STATE_DELTA' || type === 'conversation.updated') continue; // Dispatched below, with side effects
+    client.on(type, (payload) => dispatch(type, payload));
+  }
+
+  // Abort frontend tool executions whose message or conversation is gone
   client.on('message.canceled', (payload) => {
     const { messageId } = payload as any;
-    setState('messages', messageId, 'status', 'canceled');
+    if (!messageId) return;
+    dropToolBatches(id => id === messageId);
+    toolExecutor?.cancelForMessage(messageId);
   });
 
-  // Official AG-UI events for tool calls
-  client.on('TOOL_CALL_START', (payload) => {
-    const { messageId, toolCallId, toolName } = payload as any;
-    setState('toolCallsInProgress', toolCallId, {
-      id: toolCallId,
-      name: toolName,
-      args: '',
-      messageId,
-    });
+  client.on('conversation.archived', (payload) => {
+    const { conversationId } = payload as any;
+    if (!conversationId) return;
+    dropToolBatches((_, batch) => batch.conversationId === conversationId);
+    toolExecutor?.cancelForConversation(conversationId);
   });
 
-  client.on('TOOL_CALL_ARGS', (payload) => {
-    const { toolCallId, delta } = payload as any;
-    setState('toolCallsInProgress', toolCallId, 'args', (args = '') => args + (delta || ''));
+  // Agent state refreshes - at most one fetch in flight per conversation
+  const agentStateRefreshes = new Set<Id>();
+  const agentStateSnapshots = new Map<Id, number>(); // conversationId -> snapshots pushed by the server
+
+  const refreshAgentState = (conversationId: Id) => {
+    if (!client.getAgentState || agentStateRefreshes.has(conversationId)) return;
+    agentStateRefreshes.add(conversationId);
+    const seen = agentStateSnapshots.get(conversationId) ?? 0;
+    let outdated = false;
+    client.getAgentState(conversationId)
+      .then(snapshot => {
+        // A snapshot pushed while we were fetching is newer than ours
+        outdated = (agentStateSnapshots.get(conversationId) ?? 0) !== seen;
+        if (!outdated) dispatch('STATE_SNAPSHOT', { snapshot, conversationId });
+      })
+      .catch(error => console.error(`Failed to refresh agent state for ${conversationId}:`, error))
+      .finally(() => {
+        agentStateRefreshes.delete(conversationId);
+        // Deltas kept failing after the newer snapshot - fetch again
+        if (outdated && state.agentStateStale[conversationId]) refreshAgentState(conversationId);
+      });
+  };
+
+  client.on('STATE_SNAPSHOT', (payload) => {
+    const cid = getEventConversation(state, payload);
+    if (cid) agentStateSnapshots.set(cid, (agentStateSnapshots.get(cid) ?? 0) + 1);
   });
 
-  client.on('TOOL_CALL_END', async (payload) => {
-    const { toolCallId } = payload as any;
-    const tc = state.toolCallsInProgress[toolCallId];
-    if (tc) {
-      const msg = state.messages[tc.messageId];
-      if (msg) {
-        const toolCall = {
-          id: tc.id,
-          type: 'function' as const,
-          function: {
-            name: tc.name,
-            arguments: tc.args,
-          },
-        };
-        setState('messages', tc.messageId, 'toolCalls', (arr = []) => [...arr, toolCall]);
-
-        // V2: If tool executor is available, execute the tool
-        if (toolExecutor) {
-          try {
-            // Parse tool arguments
-            const args = JSON.parse(tc.args || '{}');
-
-            // Execute tool in frontend
-            const result = await toolExecutor.executeTool(
-              tc.id,
-              tc.name,
-              args,
-              msg.conversationId || state.activeConversationId || '',
-              tc.messageId
-            );
-
-            // Send tool result back to agent to resume execution
-            // Note: This requires the client to have a sendToolResult method
-            if ('sendToolResult' in client && typeof (client as any).sendToolResult === 'function') {
-              await (client as any).sendToolResult(
-                msg.conversationId || state.activeConversationId,
-                tc.id,
-                result
-              );
-            }
-          } catch (error) {
-            console.error(`Tool execution failed for ${tc.name}:`, error);
-            // TODO: Emit tool execution error event
-          }
-        }
+  client.on('STATE_DELTA', (payload) => {
+    dispatch('STATE_DELTA', payload);
+
+    // A delta that did not apply means we are out of sync - ask for a fresh snapshot
+    const cid = getEventConversation(state, payload);
+    if (cid && state.agentStateStale[cid]) refreshAgentState(cid);
+  });
+
+  // Tool calls of one assistant message run concurrently and are resumed
+  // together - the agent is resumed once with every tool message appended
+  interface ToolCallBatch {
+    conversationId: Id;
+    runId?: string; // The batch is sent when this run finishes
+    outputs: Promise<ToolCallOutput | undefined>[];
+  }
+  const toolBatches = new Map<Id, ToolCallBatch>(); // assistant messageId -> batch
+
+  // Execute one tool call, turning every outcome except cancellation into a result for the agent
+  const runToolCall = async (
+    tc: { id: string; name: string; args: string; messageId: Id },
+    conversationId: Id | undefined
+  ): Promise<ToolCallOutput | undefined> => {
+    try {
+      // Execute tool in frontend (the executor parses and validates the raw args)
+      const result = await toolExecutor!.executeTool(tc.id, tc.name, tc.args || '{}', conversationId || '', tc.messageId);
+      return { toolCallId: tc.id, result };
+    } catch (error) {
+      if (error instanceof ToolExecutionError && error.code === 'TOOL_CANCELED') {
+        // The message or conversation went away - nobody is waiting for a result
+        return undefined;
+      }
+      if (error instanceof ToolRejectedError) {
+        // Denied or rejected by the user - not a failure
+        return { toolCallId: tc.id, result: error.toToolResult() };
       }
-      setState('toolCallsInProgress', toolCallId, undefined!);
+
+      // Every call gets a result - on failure the agent receives a
+      // machine-readable error instead of waiting forever
+      const failure = error instanceof ToolArgumentsError || error instanceof ToolExecutionError
+        ? error
+        : new ToolExecutionError(tc.id, tc.name, error instanceof Error ? error.message : String(error));
+      console.error(`Tool execution failed for ${tc.name}:`, error);
+
+      const record: ToolCallFailure = {
+        toolCallId: tc.id,
+        toolName: tc.name,
+        messageId: tc.messageId,
+        conversationId,
+        error: { message: failure.message, code: failure.code },
+        attempts: failure instanceof ToolExecutionError ? failure.attempts : 0,
+        failedAt: new Date().toISOString(),
+      };
+      dispatch('tool.execution.failed', record);
+      emit('tool.execution.failed', record);
+
+      return { toolCallId: tc.id, result: failure.toToolResult() };
     }
+  };
+
+  // Send tool results back to agent to resume execution
+  // Note: This requires the client to have a sendToolResults or sendToolResult method
+  const sendToolResults = async (conversationId: Id, outputs: ToolCallOutput[]) => {
+    const options: ToolResultOptions = {
+      state: state.agentStateByConversation[conversationId],
+      tools: toolExecutor?.getTools(conversationId), // Only tools in the conversation's scope
+    };
+    if (client.sendToolResults) {
+      await client.sendToolResults(conversationId, outputs, options);
+    } else if (client.sendToolResult) {
+      // Clients without batching resume once per result
+      for (const { toolCallId, result } of outputs) {
+        await client.sendToolResult(conversationId, toolCallId, result, options);
+      }
+    }
+  };
+
+  const flushingToolBatches = new Map<Id, number>(); // conversationId -> batches waiting on calls or being sent
+
+  // Tool calls the agent is still waiting for hold the conversation's turn
+  const hasToolWork = (conversationId: Id) =>
+    (flushingToolBatches.get(conversationId) ?? 0) > 0 ||
+    [...toolBatches.values()].some(batch => batch.conversationId === conversationId);
+
+  // Wait for every call of the batch, then resume the agent once
+  const flushToolBatch = async (messageId: Id) => {
+    const batch = toolBatches.get(messageId);
+    if (!batch) return;
+    toolBatches.delete(messageId);
+    const { conversationId } = batch;
+    flushingToolBatches.set(conversationId, (flushingToolBatches.get(conversationId) ?? 0) + 1);
+
+    try {
+      const outputs = (await Promise.all(batch.outputs)).filter((o): o is ToolCallOutput => !!o);
+      if (outputs.length === 0) return;
+
+      // The turn goes on with the run that receives the results
+      const turn = turns.get(conversationId);
+      if (turn) turn.awaitingRun = true;
+      try {
+        await sendToolResults(conversationId, outputs);
+      } catch (error) {
+        if (turn) turn.awaitingRun = false;
+        console.error(`Failed to send tool results for message ${messageId}:`, error);
+      }
+    } finally {
+      const count = (flushingToolBatches.get(conversationId) ?? 1) - 1;
+      if (count > 0) flushingToolBatches.set(conversationId, count);
+      else flushingToolBatches.delete(conversationId);
+      settleTurn(conversationId);
+    }
+  };
+
+  // Drop batches that will never be sent (their executions are canceled separately)
+  const dropToolBatches = (match: (messageId: Id, batch: ToolCallBatch) => boolean) => {
+    const conversationIds = new Set<Id>();
+    for (const [messageId, batch] of toolBatches) {
+      if (!match(messageId, batch)) continue;
+      toolBatches.delete(messageId);
+      conversationIds.add(batch.conversationId);
+    }
+    conversationIds.forEach(settleTurn);
+  };
+
+  client.on('TOOL_CALL_END', (payload) => {
+    const { toolCallId } = payload as any;
+    const inProgress = state.toolCallsInProgress[toolCallId];
+    const tc = inProgress && { ...inProgress };
+
+    dispatch('TOOL_CALL_END', payload);
+
+    // V2: If tool executor is available, execute the tool
+    const msg = tc && state.messages[tc.messageId];
+    if (!tc || !msg || !toolExecutor) return;
+
+    const conversationId = msg.conversationId || state.activeConversationId;
+    if (!conversationId) return;
+
+    // Tools not registered in this conversation's scope run on the agent side
+    if (!toolExecutor.getTool(tc.name, conversationId)) return;
+
+    const run = getEventRun(state, payload);
+    let batch = toolBatches.get(tc.messageId);
+    if (!batch) {
+      batch = { conversationId, runId: run?.status === 'running' ? run.id : undefined, outputs: [] };
+      toolBatches.set(tc.messageId, batch);
+    }
+    batch.outputs.push(runToolCall(tc, conversationId));
+
+    // Without a run to wait for, the batch closes when its message ends
+    if (!batch.runId && msg.status !== 'streaming') flushToolBatch(tc.messageId);
   });
 
-  client.on('attachment.available', (payload) => {
-    const { attachment } = payload as any;
-    setState('attachments', attachment.id, attachment);
+  // The agent is waiting for tool results once its run is over
+  client.on('RUN_FINISHED', (payload) => {
+    const { runId } = payload as any;
+    for (const [messageId, batch] of toolBatches) {
+      if (batch.runId === runId) flushToolBatch(messageId);
+    }
   });
 
-  client.on('attachment.failed', () => {
-    // Optionally track errors
+  // A failed run is not waiting for anything
+  client.on('RUN_ERROR', () => {
+    dropToolBatches((messageId, batch) => {
+      if (!batch.runId || state.runs[batch.runId]?.status !== 'errored') return false;
+      toolExecutor?.cancelForMessage(messageId, 'Run failed');
+      return true;
+    });
+  });
+
+  for (const type of ['TEXT_MESSAGE_END', 'message.completed'] as const) {
+    client.on(type, (payload) => {
+      const messageId = (payload as any).messageId ?? (payload as any).message?.id;
+      const batch = messageId && toolBatches.get(messageId);
+      if (batch && !batch.runId) flushToolBatch(messageId);
+    });
+  }
+
+  // ==========================================================================
+  // Incremental sync and conflicts
+  // ==========================================================================
+
+  // Local conversation edits in flight, on top of the last server version seen
+  interface PendingEdit {
+    server: ConversationDoc;
+    updates: Partial<ConversationDoc>;
+  }
+  const pendingEdits = new Map<Id, PendingEdit>(); // conversationId -> edit
+
+  const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+  // Lay a pending local edit over a server version of the conversation. Fields
+  // the server changed as well are a conflict - the local value is kept until
+  // it is resolved.
+  const rebaseConversation = (server: ConversationDoc): ConversationDoc => {
+    const edit = pendingEdits.get(server.id);
+    if (!edit) return server;
+
+    const fields = (Object.keys(edit.updates) as (keyof ConversationDoc)[]).filter(key =>
+      !sameValue(server[key], edit.server[key]) && !sameValue(server[key], edit.updates[key])
+    );
+    edit.server = server;
+    if (fields.length > 0) {
+      const conflict: SyncConflict = {
+        conversationId: server.id,
+        fields,
+        local: { ...edit.updates },
+        server,
+        detectedAt: new Date().toISOString(),
+      };
+      dispatch('sync.conflict', conflict);
+      emit('sync.conflict', conflict);
+    }
+    return { ...server, ...edit.updates };
+  };
+
+  client.on('conversation.updated', (payload) => {
+    const { conversation } = payload as { conversation: ConversationDoc };
+    dispatch('conversation.updated', { conversation: rebaseConversation(conversation) });
   });
 
+  const applyChanges = (changes: ChangeSet) => {
+    // What to write to the cache - looked up before the messages are gone
+    const touched = new Set<Id | undefined>([
+      ...changes.conversations.map(c => c.id),
+      ...changes.messages.map(m => m.conversationId),
+      ...changes.deletedMessageIds.map(id => state.messages[id]?.conversationId),
+    ]);
+
+    for (const id of changes.deletedConversationIds) {
+      pendingEdits.delete(id);
+      dropToolBatches((_, batch) => batch.conversationId === id);
+      toolExecutor?.cancelForConversation(id, 'Conversation deleted');
+    }
+
+    dispatch('sync.changes', { ...changes, conversations: changes.conversations.map(rebaseConversation) });
+
+    for (const id of touched) {
+      if (id && state.conversations[id]) markDirty(id);
+    }
+    if (cache && changes.deletedConversationIds.length > 0) {
+      for (const id of changes.deletedConversationIds) removedConversations.add(id);
+      markDirty();
+    }
+  };
+
+  let syncing: Promise<void> | undefined; // The one in flight - callers share it
+
+  const sync = (): Promise<void> => {
+    if (!client.listChanges) return Promise.reject(new Error('Client does not support listChanges'));
+    syncing ??= runSync(client.listChanges.bind(client)).finally(() => { syncing = undefined; });
+    return syncing;
+  };
+
+  const runSync = async (listChanges: (sinceRevision: string) => Promise<ChangeSet>) => {
+    await hydrated;
+    for (;;) {
+      const since = state.syncRevision;
+      const changes = await listChanges(since);
+      applyChanges(changes);
+      // Stop on the last page, or if the server makes no progress
+      if (!changes.hasMore || changes.revision === since) return;
+    }
+  };
+
+  const updateConversation = async (id: Id, updates: Partial<ConversationDoc>) => {
+    const current = state.conversations[id];
+    if (!current) throw new Error(`Unknown conversation: ${id}`);
+
+    const previous = pendingEdits.get(id);
+    const edit: PendingEdit = {
+      server: previous?.server ?? { ...unwrap(current) },
+      updates: { ...previous?.updates, ...updates },
+    };
+    pendingEdits.set(id, edit);
+    dispatch('conversation.updated', { conversation: { ...unwrap(current), ...updates } });
+
+    try {
+      const result = await client.updateConversation(id, updates);
+      // A later edit still in flight stays on top of the result
+      if (pendingEdits.get(id) === edit) pendingEdits.delete(id);
+      dispatch('conversation.updated', { conversation: rebaseConversation(result) });
+      return result;
+    } catch (error) {
+      if (pendingEdits.get(id) === edit) {
+        pendingEdits.delete(id);
+        dispatch('conversation.updated', { conversation: edit.server });
+        setState(produce((draft) => { delete draft.syncConflicts[id]; }));
+      }
+      throw error;
+    }
+  };
+
+  const resolveConflict = async (conversationId: Id, keep: 'local' | 'server') => {
+    const conflict = state.syncConflicts[conversationId];
+    if (!conflict) return;
+    const { fields, server } = unwrap(conflict);
+    setState(produce((draft) => { delete draft.syncConflicts[conversationId]; }));
+    // The local edit already went to the server - taking theirs writes it back
+    if (keep === 'server') {
+      await updateConversation(conversationId, Object.fromEntries(
+        fields.map(field => [field, server[field as keyof ConversationDoc]])
+      ) as Partial<ConversationDoc>);
+    }
+  };
+
   // Conversation management methods
   const loadConversations = async () => {
+    // With a cache, the cached list is shown and revalidated instead
+    if (cache) return revalidate();
+    if (client.listChanges) return sync();
+
     const conversations = await client.listConversations();
     const conversationsMap: Record<string, any> = {};
     conversations.forEach(c => {
       conversationsMap[c.id] = c;
     });
     setState('conversations', conversationsMap);
+    markDirty();
   };
 
   const createConversation = async (title?: string, metadata?: Record<string, unknown>) => {
@@ -224,16 +719,182 @@ export function createAgUiStore(clientOrOptions: AgUiClient | CreateAgUiStoreOpt
     await client.archiveConversation(id);
   };
 
-  // Message management methods
+  // Message management methods - history loads newest first, a page at a time
+  const pageOptions = (before?: Id): MessagePageOptions | undefined =>
+    messagePageSize > 0 ? { ...(before ? { before } : {}), limit: messagePageSize } : undefined;
+
+  // A short page is the last one (so is everything, without paging)
+  const isFullPage = (messages: unknown[]) => messagePageSize > 0 && messages.length === messagePageSize;
+
   const loadMessages = async (conversationId: Id) => {
-    const messages = await client.getMessages(conversationId);
-    messages.forEach(m => {
-      setState('messages', m.id, m);
-      const cid = m.conversationId || conversationId;
-      setState('messagesByConversation', cid, (arr = []) =>
-        arr.includes(m.id) ? arr : [...arr, m.id]
-      );
+    // Cached messages are shown as they are - revalidate() refreshes them
+    await hydrated;
+    if (cache && state.messagesByConversation[conversationId]) return;
+    // Loaded messages only need what changed since
+    if (client.listChanges && state.messagesByConversation[conversationId]) return sync();
+
+    const messages = await client.getMessages(conversationId, pageOptions());
+    dispatch('messages.page', { conversationId, messages, hasMore: isFullPage(messages) });
+  };
+
+  const loadOlderMessages = async (conversationId: Id) => {
+    await hydrated;
+    const history = state.messageHistory[conversationId];
+    if (history?.loading || history?.hasMore === false) return;
+    // The cursor is the oldest message the server knows about
+    const before = (state.messagesByConversation[conversationId] || [])
+      .find(id => state.messages[id] && !isUnsentMessage(state.messages[id]));
+    if (!before) return loadMessages(conversationId);
+
+    setState('messageHistory', conversationId, { hasMore: true, loading: true });
+    try {
+      const messages = await client.getMessages(conversationId, pageOptions(before));
+      dispatch('messages.page', { conversationId, messages, before, hasMore: isFullPage(messages) });
+    } catch (error) {
+      setState('messageHistory', conversationId, 'loading', false);
+      throw error;
+    }
+  };
+
+  // ==========================================================================
+  // Outbox - optimistic user messages, delivered one at a time per conversation
+  // ==========================================================================
+
+  const outboxQueues = new Map<Id, Promise<void>>(); // conversationId -> last delivery in line
+  const outboxOptions = new Map<Id, OutboxOptions>(); // clientMessageId -> options, until delivered
+
+  // ==========================================================================
+  // Turns - a send holds its conversation's queue until the agent is done:
+  // the run it started, the tool calls of that run, and the runs that resume
+  // the agent with their results
+  // ==========================================================================
+
+  interface Turn {
+    conversationId: Id;
+    awaitingRun: boolean; // A send is out whose run has not started yet
+    release: () => void;
+  }
+  const turns = new Map<Id, Turn>(); // conversationId -> turn holding the queue
+  const turnRuns = new Map<string, Turn>(); // runId -> turn, while the run is going
+
+  const endTurn = (turn: Turn | undefined) => {
+    if (!turn || turns.get(turn.conversationId) !== turn) return;
+    turns.delete(turn.conversationId);
+    for (const [runId, t] of turnRuns) if (t === turn) turnRuns.delete(runId);
+    turn.release();
+  };
+
+  // End the conversation's turn once nothing is left to wait for
+  const settleTurn = (conversationId: Id) => {
+    const turn = turns.get(conversationId);
+    if (!turn || turn.awaitingRun || hasToolWork(conversationId)) return;
+    for (const t of turnRuns.values()) if (t === turn) return;
+    endTurn(turn);
+  };
+
+  client.on('RUN_STARTED', (payload) => {
+    const { threadId, runId } = payload as any;
+    const turn = threadId ? turns.get(threadId) : undefined;
+    if (!turn || !runId) return;
+    turn.awaitingRun = false;
+    turnRuns.set(runId, turn);
+  });
+
+  client.on('RUN_FINISHED', (payload) => {
+    const { runId } = payload as any;
+    const turn = turnRuns.get(runId);
+    if (!turn) return;
+    turnRuns.delete(runId);
+    settleTurn(turn.conversationId);
+  });
+
+  // A failed run ends the turn - nothing continues it
+  client.on('RUN_ERROR', (payload) => {
+    const { runId } = payload as any;
+    const conversationId = getEventConversation(state, payload);
+    endTurn(runId ? turnRuns.get(runId) : conversationId ? turns.get(conversationId) : undefined);
+  });
+
+  // Servers without run events end a run with its message
+  client.on('message.completed', (payload) => {
+    const conversationId = getEventConversation(state, payload);
+    const turn = conversationId ? turns.get(conversationId) : undefined;
+    if (!turn || getActiveRun(state, conversationId)) return;
+    turn.awaitingRun = false;
+    settleTurn(turn.conversationId);
+  });
+
+  for (const type of ['message.errored', 'message.canceled', 'conversation.archived'] as const) {
+    client.on(type, (payload) => {
+      const conversationId = getEventConversation(state, payload);
+      if (conversationId) endTurn(turns.get(conversationId));
+    });
+  }
+
+  /**
+   * Start a turn after those already queued for the conversation. Resolves
+   * once `send` has, while the queue stays held until the turn is over. A send
+   * that resolves to false sent nothing; a failed one does not hold the queue.
+   */
+  const enqueue = (conversationId: Id, send: () => Promise<boolean | void>): Promise<void> => {
+    const previous = outboxQueues.get(conversationId) ?? Promise.resolve();
+    const delivery = previous.then(async () => {
+      // Watch before sending - a transport may deliver the whole run before it returns
+      let release!: () => void;
+      const ended = new Promise<void>(resolve => { release = resolve; });
+      const turn: Turn = { conversationId, awaitingRun: true, release };
+      turns.set(conversationId, turn);
+      try {
+        if ((await send()) === false) endTurn(turn);
+      } catch (error) {
+        endTurn(turn);
+        throw error;
+      }
+      return { ended };
+    });
+    const settled = delivery.then(({ ended }) => ended, () => {});
+    outboxQueues.set(conversationId, settled);
+    settled.then(() => {
+      if (outboxQueues.get(conversationId) === settled) outboxQueues.delete(conversationId);
     });
+    return delivery.then(() => {});
+  };
+
+  // The agent sees a branch without the messages that never made it to the server
+  const getSentPath = (messageId: Id) => getBranchPath(state, messageId).filter(m => !isUnsentMessage(m));
+
+  // Send an outbox message - false when it was removed while queued (snapshot, store closed)
+  const deliverMessage = async (conversationId: Id, clientMessageId: Id): Promise<boolean> => {
+    const options = outboxOptions.get(clientMessageId);
+    outboxOptions.delete(clientMessageId);
+    const m = findOutboxMessage(state, conversationId, clientMessageId);
+    if (!m || m.status !== 'sending') return false;
+
+    const history = m.parentId ? getSentPath(m.parentId) : [];
+    try {
+      await client.sendMessage(conversationId, m.content as string, {
+        ...options,
+        clientMessageId,
+        parentId: history.length ? history[history.length - 1].id : null,
+        history,
+        // Shared agent state (including local edits) rides along as RunAgentInput.state
+        state: state.agentStateByConversation[conversationId] as State | undefined,
+      });
+      setState(produce((draft) => settleOutboxMessage(draft, conversationId, clientMessageId, 'sent')));
+      markDirty(conversationId);
+      return true;
+    } catch (error: any) {
+      const failure = { message: error?.message ?? String(error), code: 'SEND_FAILED' };
+      setState(produce((draft) => settleOutboxMessage(draft, conversationId, clientMessageId, 'failed', failure)));
+      markDirty(conversationId);
+      throw error;
+    }
+  };
+
+  // Deliver after the messages already queued for the conversation
+  const enqueueMessage = (conversationId: Id, clientMessageId: Id, options?: OutboxOptions): Promise<void> => {
+    outboxOptions.set(clientMessageId, options ?? {});
+    return enqueue(conversationId, () => deliverMessage(conversationId, clientMessageId));
   };
 
   const sendMessage = async (
@@ -245,24 +906,166 @@ export function createAgUiStore(clientOrOptions: AgUiClient | CreateAgUiStoreOpt
       tools?: Tool[]; // V2: Pass tools
     }
   ) => {
-    await client.sendMessage(conversationId, text, options);
+    if (!conversationId) {
+      // The client creates the conversation - nothing to show until it exists
+      await client.sendMessage(null, text, { ...options, parentId: null, history: [] });
+      return;
+    }
+
+    // Show the message right away, at the end of the selected branch
+    const clientMessageId = crypto.randomUUID();
+    dispatch('message.created', {
+      message: {
+        id: clientMessageId,
+        clientMessageId,
+        conversationId,
+        role: 'user',
+        content: text,
+        status: 'sending',
+        attachments: options?.attachments ?? [],
+        metadata: options?.metadata,
+        createdAt: new Date().toISOString(),
+      },
+    });
+    await enqueueMessage(conversationId, clientMessageId, options);
+  };
+
+  const retryMessage = async (
+    conversationId: Id,
+    messageId: Id,
+    options?: {
+      tools?: Tool[];
+    }
+  ) => {
+    const m = state.messages[messageId];
+    if (m?.status !== 'failed') throw new Error(`Cannot retry message: ${messageId}`);
+
+    const clientMessageId = m.clientMessageId ?? crypto.randomUUID();
+    setState(produce((draft) => {
+      draft.messages[messageId].clientMessageId = clientMessageId;
+      requeueMessage(draft, messageId);
+    }));
+    markDirty(conversationId);
+    await enqueueMessage(conversationId, clientMessageId, {
+      attachments: m.attachments,
+      metadata: m.metadata,
+      tools: options?.tools,
+    });
+  };
+
+  const clearBranchHead = (conversationId: Id) => {
+    setState(produce((draft) => { delete draft.branchHead[conversationId]; }));
+  };
+
+  const editMessage = async (
+    conversationId: Id,
+    messageId: Id,
+    text: string,
+    options?: {
+      attachments?: Id[];
+      metadata?: Record<string, unknown>;
+      tools?: Tool[];
+    }
+  ) => {
+    const original = state.messages[messageId];
+    if (!original) throw new Error(`Unknown message: ${messageId}`);
+
+    // The edited message becomes a sibling of the original - sent in turn,
+    // like new messages
+    const parentId = original.parentId ?? null;
+    await enqueue(conversationId, async () => {
+      setState('branchHead', conversationId, parentId);
+      try {
+        await client.sendMessage(conversationId, text, {
+          ...options,
+          parentId,
+          history: parentId ? getSentPath(parentId) : [],
+          state: state.agentStateByConversation[conversationId] as State | undefined,
+        });
+      } catch (error) {
+        clearBranchHead(conversationId);
+        throw error;
+      }
+    });
+  };
+
+  const regenerate = async (
+    conversationId: Id,
+    messageId: Id,
+    options?: {
+      metadata?: Record<string, unknown>;
+      tools?: Tool[];
+    }
+  ) => {
+    if (!client.regenerate) throw new Error('Client does not support regenerate');
+    const original = state.messages[messageId];
+    if (!original?.parentId) throw new Error(`Cannot regenerate message: ${messageId}`);
+
+    // The new reply becomes a sibling of the original
+    const parentId = original.parentId;
+    const regenerate = client.regenerate.bind(client);
+    await enqueue(conversationId, async () => {
+      setState('branchHead', conversationId, parentId);
+      try {
+        await regenerate(conversationId, {
+          ...options,
+          parentId,
+          history: getSentPath(parentId),
+          state: state.agentStateByConversation[conversationId] as State | undefined,
+        });
+      } catch (error) {
+        clearBranchHead(conversationId);
+        throw error;
+      }
+    });
+  };
+
+  const selectBranch = (messageId: Id) => {
+    setState(produce((draft) => selectBranchIn(draft, messageId)));
+  };
+
+  const setAgentState = (conversationId: Id, value: unknown) => {
+    setState('agentStateByConversation', conversationId, reconcile(value as any));
   };
 
   const cancelMessage = async (conversationId: Id, messageId: Id) => {
+    dropToolBatches(id => id === messageId);
+    toolExecutor?.cancelForMessage(messageId);
     await client.cancelMessage(conversationId, messageId);
   };
 
+  const close = () => {
+    toolBatches.clear();
+    outboxOptions.clear();
+    turns.forEach(endTurn);
+    if (saveTimer) persist(); // Write what is pending before going away
+    if (cache && typeof window !== 'undefined') window.removeEventListener('online', revalidate);
+    toolExecutor?.cancelForConversation(undefined, 'Store closed');
+    client.close();
+  };
+
   return {
     state,
     isConnected,
+    on,
     toolExecutor, // V2: Expose tool executor
     loadConversations,
     createConversation,
     setActiveConversation,
     archiveConversation,
+    updateConversation,
+    resolveConflict,
+    sync,
+    revalidate,
     loadMessages,
+    loadOlderMessages,
     sendMessage,
+    retryMessage,
     cancelMessage,
-    close: () => client.close(),
+    editMessage,
+    regenerate,
+    selectBranch,
+    setAgentState,
+    close,
   };
 }
@@ -1,5 +1,6 @@
 import type {
   Id,
+  ChangeSet,
   ConversationDoc,
   MessageDoc,
   AttachmentDoc,
@@ -11,25 +12,98 @@ import type {
 } from '../types';
 import { EventType } from '@ag-ui/core';
 import type { ToolCall } from '@ag-ui/core';
-import { applyPatch, Operation } from 'fast-json-patch';
+import { applyPatch, validate, deepClone } from 'fast-json-patch';
+import { PartialJsonParser, parsePartialJson } from '../partial-json';
+import type { PartialJsonUpdate } from '../partial-json';
+import type { Operation } from 'fast-json-patch';
 
 // Tool call tracking for in-progress tool calls
 export interface ToolCallInProgress {
   id: string;
   name: string;
   args: string; // Accumulated JSON string
+  partialArgs: Record<string, any>; // Best-effort parse of args so far
   messageId: string;
 }
 
+// Frontend tool call that failed (invalid arguments, missing tool, handler error)
+export interface ToolCallFailure {
+  toolCallId: string;
+  toolName: string;
+  messageId: Id;
+  conversationId?: Id;
+  error: { message: string; code: string };
+  attempts: number;
+  failedAt: string;
+}
+
+// A local conversation edit that raced a server update of the same fields
+export interface SyncConflict {
+  conversationId: Id;
+  fields: string[]; // Changed both locally and on the server
+  local: Partial<ConversationDoc>; // The local edit (what the store shows)
+  server: ConversationDoc; // The server's version
+  detectedAt: string;
+}
+
+// Agent run lifecycle (RUN_STARTED / RUN_FINISHED / RUN_ERROR)
+export type RunStatus = 'running' | 'finished' | 'errored';
+
+// Reasoning text streamed via THINKING_* events
+export interface ThinkingRecord {
+  title?: string;
+  text: string;
+  status: 'streaming' | 'completed';
+}
+
+export interface RunRecord {
+  id: string;
+  conversationId: Id; // AG-UI threadId
+  status: RunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  result?: unknown; // RUN_FINISHED result
+  error?: { message: string; code?: string };
+  messageIds: Id[]; // Messages streamed during this run
+  custom: Record<string, unknown>; // Latest CUSTOM event value by name
+  pendingThinking?: ThinkingRecord; // Reasoning streamed before its message started
+}
+
+// Step timeline entry (STEP_STARTED / STEP_FINISHED)
+export interface StepRecord {
+  name: string;
+  status: 'running' | 'finished';
+  startedAt: string;
+  finishedAt?: string;
+}
+
+// How much of a conversation's history is loaded (cursor pagination)
+export interface MessageHistory {
+  hasMore: boolean; // Older messages are left on the server
+  loading: boolean; // A page of older messages is on its way
+}
+
 export interface ChatState {
   sessionId?: string;
-  revision: string;
+  revision: string; // Session revision - resume cursor, bumped by any newer document
+  syncRevision: string; // listChanges cursor - only advanced by applyChangeSet
   conversations: Record<Id, ConversationDoc>;
   messages: Record<Id, MessageDoc>;
   attachments: Record<Id, AttachmentDoc>;
-  messagesByConversation: Record<Id, Id[]>;
+  messagesByConversation: Record<Id, Id[]>; // Oldest first
+  messageHistory: Record<Id, MessageHistory>; // conversationId -> paging (unknown until a page loads)
   streaming: Record<Id, { text: string }>;
   toolCallsInProgress: Record<string, ToolCallInProgress>; // toolCallId -> tool call
+  toolCallFailures: Record<string, ToolCallFailure>; // toolCallId -> failure reported to the agent
+  runs: Record<string, RunRecord>; // runId -> run
+  runsByConversation: Record<Id, string[]>; // conversationId -> runIds, oldest first
+  steps: Record<string, StepRecord[]>; // runId -> step timeline
+  thinking: Record<Id, ThinkingRecord>; // messageId -> reasoning text
+  agentStateByConversation: Record<Id, unknown>; // Shared agent state (STATE_SNAPSHOT / STATE_DELTA)
+  agentStateStale: Record<Id, boolean>; // A delta failed to apply; waiting for a fresh snapshot
+  selectedBranch: Record<string, Id>; // parentId (or `root:<conversationId>`) -> selected child
+  branchHead: Record<Id, Id | null>; // conversationId -> where the next new message attaches (edit / regenerate)
+  syncConflicts: Record<Id, SyncConflict>; // conversationId -> unresolved conflict
   activeConversationId?: Id;
 }
 
@@ -39,55 +113,145 @@ export function initStateFromSnapshot(snap: StateSnapshot): ChatState {
   const attachments: Record<Id, AttachmentDoc> = {};
   const messagesByConversation: Record<Id, Id[]> = {};
   for (const c of snap.conversations) conversations[c.id] = c;
-  for (const m of snap.messages) {
-    messages[m.id] = m;
+  for (const snapMsg of snap.messages) {
+    const m = { ...snapMsg };
     if (m.conversationId) {
       const arr = messagesByConversation[m.conversationId] || (messagesByConversation[m.conversationId] = []);
+      // Messages without tree info follow the previous one
+      if (m.parentId === undefined) m.parentId = arr.length ? arr[arr.length - 1] : null;
       arr.push(m.id);
     }
+    messages[m.id] = m;
   }
   for (const a of snap.attachments) attachments[a.id] = a;
   return {
     sessionId: snap.sessionId,
     revision: snap.revision,
+    syncRevision: snap.syncRevision ?? '0',
     conversations,
     messages,
     attachments,
     messagesByConversation,
     streaming: {},
     toolCallsInProgress: {},
+    toolCallFailures: {},
+    runs: {},
+    runsByConversation: {},
+    steps: {},
+    thinking: {},
+    agentStateByConversation: {},
+    agentStateStale: {},
+    selectedBranch: {},
+    branchHead: {},
+    syncConflicts: {},
+    messageHistory: {},
     activeConversationId: snap.activeConversationId,
   };
 }
 
-export function toSnapshot(state: ChatState): StateSnapshot {
+export function toSnapshot(state: ChatState, conversationIds?: Id[]): StateSnapshot {
+  // Optionally only some conversations (and their messages)
+  const ids = conversationIds ? new Set(conversationIds) : undefined;
   return {
     sessionId: state.sessionId || '',
     revision: state.revision,
-    conversations: Object.values(state.conversations),
-    messages: Object.values(state.messages),
+    syncRevision: state.syncRevision,
+    conversations: Object.values(state.conversations).filter(c => !ids || ids.has(c.id)),
+    // In loading order, so older pages stay in front
+    messages: Object.entries(state.messagesByConversation)
+      .filter(([cid]) => !ids || ids.has(cid))
+      .flatMap(([, messageIds]) => messageIds.map(id => state.messages[id]).filter(Boolean)),
     attachments: Object.values(state.attachments),
     activeConversationId: state.activeConversationId,
   };
 }
 
+/**
+ * Fill in documents from a cached snapshot without overwriting what the store
+ * already has. Messages that were in flight when the snapshot was taken are
+ * settled: unsent ones become 'failed' (and can be retried), streaming ones 'errored'.
+ */
+export function hydrateFromSnapshot(state: ChatState, snap: StateSnapshot) {
+  for (const c of snap.conversations) {
+    if (!state.conversations[c.id]) state.conversations[c.id] = c;
+  }
+  for (const a of snap.attachments) {
+    if (!state.attachments[a.id]) state.attachments[a.id] = a;
+  }
+
+  // Only conversations whose messages are not loaded yet
+  const loaded = new Set(Object.keys(state.messagesByConversation));
+  for (const snapMsg of snap.messages) {
+    const cid = snapMsg.conversationId;
+    if (!cid || loaded.has(cid) || state.messages[snapMsg.id]) continue;
+    const m: MessageDoc = { ...snapMsg };
+    if (m.status === 'sending') {
+      m.status = 'failed';
+      m.failure = { message: 'Not sent before the app closed', code: 'SEND_INTERRUPTED' };
+    } else if (m.status === 'streaming') {
+      m.status = 'errored';
+      m.failure = { message: 'Stream interrupted', code: 'STREAM_INTERRUPTED' };
+    }
+    const arr = state.messagesByConversation[cid] || (state.messagesByConversation[cid] = []);
+    if (m.parentId === undefined) m.parentId = arr.length ? arr[arr.length - 1] : null;
+    arr.push(m.id);
+    state.messages[m.id] = m;
+  }
+
+  if (!state.activeConversationId && snap.activeConversationId) state.activeConversationId = snap.activeConversationId;
+  // A fresh store picks up syncing where the cache left off
+  if (state.syncRevision === '0' && snap.syncRevision) state.syncRevision = snap.syncRevision;
+}
+
+// Revisions are opaque strings, but numeric in practice - compare numerically when possible
+export function compareRevisions(a: string, b: string): number {
+  const na = Number(a);
+  const nb = Number(b);
+  if (a !== '' && b !== '' && !Number.isNaN(na) && !Number.isNaN(nb)) return na - nb;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
 // Note: applyJsonPatch removed - using fast-json-patch library instead
 
 // Normalized event reducer
 export function applyNormalizedEvent(state: ChatState, type: string, payload: any): ChatState {
   switch (type) {
     case 'state.snapshot': {
-      return initStateFromSnapshot(payload as any as StateSnapshot);
+      const snap = payload as any as StateSnapshot;
+      const next = initStateFromSnapshot(snap);
+      // A snapshot is authoritative for documents, but local UI state survives it
+      next.activeConversationId = snap.activeConversationId ?? state.activeConversationId;
+      next.syncRevision = snap.syncRevision ?? state.syncRevision;
+      for (const [id, s] of Object.entries(state.streaming)) {
+        if (next.messages[id]) next.streaming[id] = { text: s.text };
+      }
+      for (const [id, tc] of Object.entries(state.toolCallsInProgress)) {
+        if (next.messages[tc.messageId]) next.toolCallsInProgress[id] = { ...tc };
+      }
+      next.toolCallFailures = state.toolCallFailures;
+      next.runs = state.runs;
+      next.runsByConversation = state.runsByConversation;
+      next.steps = state.steps;
+      next.thinking = state.thinking;
+      next.agentStateByConversation = state.agentStateByConversation;
+      next.agentStateStale = state.agentStateStale;
+      next.selectedBranch = state.selectedBranch;
+      next.branchHead = state.branchHead;
+      next.syncConflicts = state.syncConflicts;
+      keepUnsentMessages(next, Object.values(state.messages).filter(isUnsentMessage));
+      return next;
     }
     case 'conversation.created': {
       const c = (payload as any).conversation as ConversationDoc;
       state.conversations[c.id] = c;
+      if (c.revision && compareRevisions(c.revision, state.revision) > 0) state.revision = c.revision;
       state.activeConversationId = c.id;
       return state;
     }
     case 'conversation.updated': {
       const c = (payload as any).conversation as ConversationDoc;
       state.conversations[c.id] = c;
+      if (c.revision && compareRevisions(c.revision, state.revision) > 0) state.revision = c.revision;
       return state;
     }
     case 'conversation.archived': {
@@ -97,12 +261,7 @@ export function applyNormalizedEvent(state: ChatState, type: string, payload: an
       return state;
     }
     case 'message.created': {
-      const m = (payload as any).message as MessageDoc;
-      state.messages[m.id] = m;
-      if (m.conversationId) {
-        const arr = state.messagesByConversation[m.conversationId] || (state.messagesByConversation[m.conversationId] = []);
-        if (!arr.includes(m.id)) arr.push(m.id);
-      }
+      upsertMessage(state, { ...(payload as any).message as MessageDoc });
       return state;
     }
     case 'message.delta': {
@@ -129,9 +288,17 @@ export function applyNormalizedEvent(state: ChatState, type: string, payload: an
       return state;
     }
     case 'message.errored': {
-      const { messageId } = (payload as any) as { messageId: Id };
+      const { messageId, error } = (payload as any) as { messageId: Id; error?: string | { message: string; code?: string } };
       const m = state.messages[messageId];
-      if (m) m.status = 'errored';
+      if (!m) return state;
+      if (error) m.failure = typeof error === 'string' ? { message: error } : { message: error.message, code: error.code };
+      if (m.role !== 'user') {
+        m.status = 'errored';
+      } else if (m.conversationId && getChildMessages(state, m.conversationId, m.id).length === 0) {
+        // The run failed before anything answered the message - it can be sent again.
+        // Otherwise the reply carries the error.
+        m.status = 'failed';
+      }
       return state;
     }
     case 'message.canceled': {
@@ -140,6 +307,31 @@ export function applyNormalizedEvent(state: ChatState, type: string, payload: an
       if (m) m.status = 'canceled';
       return state;
     }
+    case 'messages.page': {
+      const p = payload as { conversationId: Id; messages: MessageDoc[]; before?: Id; hasMore: boolean };
+      if (p.before) {
+        prependMessages(state, p.conversationId, p.messages);
+      } else {
+        for (const m of p.messages) upsertMessage(state, { ...m, conversationId: m.conversationId || p.conversationId });
+        if (!state.messagesByConversation[p.conversationId]) state.messagesByConversation[p.conversationId] = [];
+      }
+      state.messageHistory[p.conversationId] = { hasMore: p.hasMore, loading: false };
+      return state;
+    }
+    case 'sync.changes': {
+      applyChangeSet(state, payload as ChangeSet);
+      return state;
+    }
+    case 'sync.conflict': {
+      const conflict = payload as SyncConflict;
+      state.syncConflicts[conflict.conversationId] = conflict;
+      return state;
+    }
+    case 'tool.execution.failed': {
+      const failure = payload as ToolCallFailure;
+      state.toolCallFailures[failure.toolCallId] = failure;
+      return state;
+    }
     case 'attachment.available': {
       const { attachment } = (payload as any) as { attachment: AttachmentDoc };
       state.attachments[attachment.id] = attachment;
@@ -154,49 +346,531 @@ export function applyNormalizedEvent(state: ChatState, type: string, payload: an
   }
 }
 
+// =============================================================================
+// Message tree (branching)
+// =============================================================================
+
+// Key into ChatState.selectedBranch for the children of parentId
+function branchKey(conversationId: Id, parentId: Id | null | undefined): string {
+  return parentId ?? `root:${conversationId}`;
+}
+
+/**
+ * Children of parentId (null for the conversation root), in branch order
+ */
+export function getChildMessages(state: ChatState, conversationId: Id, parentId: Id | null): MessageDoc[] {
+  return (state.messagesByConversation[conversationId] || [])
+    .map(id => state.messages[id])
+    .filter(m => m && (m.parentId ?? null) === parentId)
+    .sort((a, b) => (a.branchIndex ?? 0) - (b.branchIndex ?? 0));
+}
+
+/**
+ * Put a page of older messages (oldest first) in front of a conversation's
+ * loaded ones. Without tree info the page is a chain that the loaded
+ * messages continue.
+ */
+export function prependMessages(state: ChatState, conversationId: Id, messages: MessageDoc[]) {
+  const loaded = state.messagesByConversation[conversationId] || [];
+  const added: Id[] = [];
+  let previousId: Id | null = null;
+  for (const pageMsg of messages) {
+    if (!state.messages[pageMsg.id]) {
+      const m: MessageDoc = { ...pageMsg, conversationId, status: pageMsg.status ?? 'completed' };
+      if (m.parentId === undefined) m.parentId = previousId;
+      state.messages[m.id] = m;
+      added.push(m.id);
+    }
+    previousId = pageMsg.id;
+  }
+  if (added.length === 0) return;
+
+  // The loaded messages' roots were only roots of what was loaded
+  if (previousId && messages.every(m => m.parentId === undefined)) {
+    const rootKey = branchKey(conversationId, null);
+    const roots = loaded.map(id => state.messages[id]).filter(m => m && (m.parentId ?? null) === null);
+    roots.forEach((m, i) => {
+      m.parentId = previousId;
+      m.branchIndex = i;
+    });
+    if (state.selectedBranch[rootKey] && roots.some(m => m.id === state.selectedBranch[rootKey])) {
+      state.selectedBranch[branchKey(conversationId, previousId)] = state.selectedBranch[rootKey];
+      delete state.selectedBranch[rootKey];
+    }
+  }
+
+  state.messagesByConversation[conversationId] = [...added, ...loaded];
+}
+
+/**
+ * The branch currently shown for a conversation: from the root, follow the
+ * selected child at each level (the newest one when none is selected)
+ */
+export function getActivePath(state: ChatState, conversationId: Id): MessageDoc[] {
+  const children = new Map<Id | null, MessageDoc[]>();
+  for (const id of state.messagesByConversation[conversationId] || []) {
+    const m = state.messages[id];
+    if (!m) continue;
+    // A message whose parent is not loaded (an older page) starts the path
+    const key = m.parentId && state.messages[m.parentId] ? m.parentId : null;
+    const arr = children.get(key) || [];
+    arr.push(m);
+    children.set(key, arr);
+  }
+
+  const path: MessageDoc[] = [];
+  const seen = new Set<Id>();
+  let parentId: Id | null = null;
+  while (true) {
+    const kids = children.get(parentId);
+    if (!kids || kids.length === 0) break;
+    const selected: Id | undefined = state.selectedBranch[branchKey(conversationId, parentId)];
+    const next: MessageDoc = kids.find(m => m.id === selected)
+      ?? kids.reduce((a, b) => ((b.branchIndex ?? 0) >= (a.branchIndex ?? 0) ? b : a));
+    if (seen.has(next.id)) break; // Guard against malformed (cyclic) parent links
+    seen.add(next.id);
+    path.push(next);
+    parentId = next.id;
+  }
+  return path;
+}
+
+/**
+ * A message and its ancestors, root first - the history the agent saw when
+ * that message was produced
+ */
+export function getBranchPath(state: ChatState, messageId: Id): MessageDoc[] {
+  const path: MessageDoc[] = [];
+  const seen = new Set<Id>();
+  let m: MessageDoc | undefined = state.messages[messageId];
+  while (m && !seen.has(m.id)) {
+    seen.add(m.id);
+    path.unshift(m);
+    m = m.parentId ? state.messages[m.parentId] : undefined;
+  }
+  return path;
+}
+
+/**
+ * Show messageId's branch wherever its parent has several children
+ */
+export function selectBranch(state: ChatState, messageId: Id) {
+  const m = state.messages[messageId];
+  if (!m?.conversationId) return;
+  state.selectedBranch[branchKey(m.conversationId, m.parentId)] = messageId;
+}
+
+// =============================================================================
+// Outbox (optimistic user messages)
+// =============================================================================
+
+/**
+ * Whether a message is an optimistic one the server does not have yet
+ */
+export function isUnsentMessage(m: MessageDoc): boolean {
+  return m.status === 'sending' || m.status === 'failed';
+}
+
+/**
+ * The local message sent with clientMessageId, if any
+ */
+export function findOutboxMessage(state: ChatState, conversationId: Id, clientMessageId: Id): MessageDoc | undefined {
+  return (state.messagesByConversation[conversationId] || [])
+    .map(id => state.messages[id])
+    .find(m => m?.clientMessageId === clientMessageId);
+}
+
+/**
+ * Record the outcome of a delivery attempt
+ */
+export function settleOutboxMessage(
+  state: ChatState,
+  conversationId: Id,
+  clientMessageId: Id,
+  status: 'sent' | 'failed',
+  error?: { message: string; code?: string }
+) {
+  const m = findOutboxMessage(state, conversationId, clientMessageId);
+  if (!m) return;
+  if (status === 'failed') {
+    m.status = 'failed';
+    m.failure = error;
+  } else if (m.status === 'sending') {
+    m.status = 'sent'; // The client did not echo it - the server has it all the same
+  }
+}
+
+/**
+ * Queue a failed message again: it moves to the end of the active branch
+ * (messages sent after it meanwhile take its place) and goes back to 'sending'
+ */
+export function requeueMessage(state: ChatState, messageId: Id) {
+  const m = state.messages[messageId];
+  if (!m?.conversationId) return;
+  const copy = { ...m, parentId: undefined, branchIndex: undefined, status: 'sending' as const, failure: undefined };
+  removeMessage(state, messageId);
+  addMessage(state, copy); // At the end of the active branch
+}
+
+/**
+ * Remove a message from the tree - its children move up to its parent
+ */
+export function removeMessage(state: ChatState, messageId: Id) {
+  const m = state.messages[messageId];
+  if (!m) return;
+  const cid = m.conversationId;
+  if (cid) {
+    const parentId = m.parentId ?? null;
+    const oldKey = branchKey(cid, m.id);
+    const selectedChild = state.selectedBranch[oldKey];
+    for (const child of getChildMessages(state, cid, m.id)) {
+      child.parentId = parentId;
+      child.branchIndex = getChildMessages(state, cid, parentId).length;
+    }
+    delete state.selectedBranch[oldKey];
+    const parentKey = branchKey(cid, parentId);
+    if (state.selectedBranch[parentKey] === m.id) {
+      if (selectedChild) state.selectedBranch[parentKey] = selectedChild;
+      else delete state.selectedBranch[parentKey];
+    }
+    const arr = state.messagesByConversation[cid];
+    if (arr?.includes(m.id)) arr.splice(arr.indexOf(m.id), 1);
+  }
+  delete state.messages[messageId];
+  delete state.streaming[messageId];
+  delete state.thinking[messageId];
+}
+
+// Add a message, or update it in place - the server's copy of an optimistic
+// message replaces it
+function upsertMessage(state: ChatState, m: MessageDoc) {
+  const optimistic = m.conversationId && m.clientMessageId
+    ? findOutboxMessage(state, m.conversationId, m.clientMessageId)
+    : undefined;
+  if (optimistic && optimistic.id !== m.id) replaceMessage(state, optimistic.id, m);
+  else addMessage(state, m);
+}
+
+// =============================================================================
+// Incremental sync
+// =============================================================================
+
+/**
+ * Apply a ChangeSet from listChanges. Conversations older than the local copy
+ * are skipped, and messages only land in conversations whose messages are
+ * loaded (the others load in full on demand). Local work wins: a message
+ * still streaming is not overwritten, and unsent messages are never deleted.
+ */
+export function applyChangeSet(state: ChatState, changes: ChangeSet) {
+  for (const c of changes.conversations) {
+    const existing = state.conversations[c.id];
+    if (existing && compareRevisions(existing.revision, c.revision) > 0) continue;
+    state.conversations[c.id] = c;
+  }
+
+  for (const m of changes.messages) {
+    if (!m.conversationId || !state.messagesByConversation[m.conversationId]) continue;
+    if (state.messages[m.id]?.status === 'streaming') continue;
+    upsertMessage(state, { ...m, status: m.status ?? 'completed' });
+  }
+
+  for (const id of changes.deletedMessageIds) {
+    const m = state.messages[id];
+    if (m && !isUnsentMessage(m)) removeMessage(state, id);
+  }
+
+  for (const id of changes.deletedConversationIds) removeConversation(state, id);
+
+  if (compareRevisions(changes.revision, state.syncRevision) > 0) state.syncRevision = changes.revision;
+  if (compareRevisions(changes.revision, state.revision) > 0) state.revision = changes.revision;
+}
+
+/**
+ * Remove a conversation and everything the store keeps for it
+ */
+export function removeConversation(state: ChatState, conversationId: Id) {
+  for (const id of state.messagesByConversation[conversationId] || []) {
+    delete state.selectedBranch[id];
+    delete state.messages[id];
+    delete state.streaming[id];
+    delete state.thinking[id];
+  }
+  delete state.messagesByConversation[conversationId];
+  delete state.conversations[conversationId];
+  delete state.selectedBranch[branchKey(conversationId, null)];
+  delete state.branchHead[conversationId];
+  delete state.agentStateByConversation[conversationId];
+  delete state.agentStateStale[conversationId];
+  delete state.syncConflicts[conversationId];
+  delete state.messageHistory[conversationId];
+  if (state.activeConversationId === conversationId) delete state.activeConversationId;
+}
+
+// Swap an optimistic message for the server's copy, keeping its place in the tree
+function replaceMessage(state: ChatState, oldId: Id, m: MessageDoc) {
+  const old = state.messages[oldId];
+  const cid = old.conversationId!;
+  m.conversationId = cid;
+  m.parentId = old.parentId ?? null;
+  m.branchIndex = old.branchIndex;
+  if (isUnsentMessage(old) || old.status === 'sent') m.status = 'sent';
+
+  delete state.messages[oldId];
+  state.messages[m.id] = m;
+  const arr = state.messagesByConversation[cid];
+  arr[arr.indexOf(oldId)] = m.id;
+
+  for (const child of getChildMessages(state, cid, oldId)) child.parentId = m.id;
+  const parentKey = branchKey(cid, m.parentId);
+  if (state.selectedBranch[parentKey] === oldId) state.selectedBranch[parentKey] = m.id;
+  if (oldId in state.selectedBranch) {
+    state.selectedBranch[m.id] = state.selectedBranch[oldId];
+    delete state.selectedBranch[oldId];
+  }
+  for (const [key, head] of Object.entries(state.branchHead)) {
+    if (head === oldId) state.branchHead[key] = m.id;
+  }
+}
+
+// Put unsent messages back after a snapshot replaced the conversation
+function keepUnsentMessages(state: ChatState, unsent: MessageDoc[]) {
+  for (const m of unsent) {
+    if (!m.conversationId || state.messages[m.id]) continue;
+    if (m.clientMessageId && findOutboxMessage(state, m.conversationId, m.clientMessageId)) continue;
+    addMessage(state, { ...m, parentId: undefined, branchIndex: undefined });
+  }
+}
+
+// Index a message and place it in the tree. New messages attach to the
+// pending branch head (edit / regenerate) or the end of the active path, and
+// become the selected branch.
+function addMessage(state: ChatState, m: MessageDoc) {
+  const existing = state.messages[m.id];
+  const cid = m.conversationId;
+
+  if (existing) {
+    // Re-delivered (reload, replay) - keep its place in the tree
+    if (m.parentId === undefined) m.parentId = existing.parentId;
+    if (m.branchIndex === undefined) m.branchIndex = existing.branchIndex;
+  } else if (cid) {
+    if (m.parentId === undefined) {
+      const head = state.branchHead[cid];
+      if (head !== undefined) {
+        m.parentId = head;
+      } else {
+        const path = getActivePath(state, cid);
+        m.parentId = path.length ? path[path.length - 1].id : null;
+      }
+    }
+    delete state.branchHead[cid];
+    if (m.branchIndex === undefined) m.branchIndex = getChildMessages(state, cid, m.parentId).length;
+    state.selectedBranch[branchKey(cid, m.parentId)] = m.id;
+  }
+
+  state.messages[m.id] = m;
+  if (cid) {
+    const arr = state.messagesByConversation[cid] || (state.messagesByConversation[cid] = []);
+    if (!arr.includes(m.id)) arr.push(m.id);
+  }
+}
+
+// The run currently streaming into a conversation, if any
+export function getActiveRun(state: ChatState, conversationId?: Id): RunRecord | undefined {
+  if (!conversationId) return undefined;
+  const runIds = state.runsByConversation[conversationId] || [];
+  const run = state.runs[runIds[runIds.length - 1]];
+  return run?.status === 'running' ? run : undefined;
+}
+
+// Settle messages still streaming when a run ends (e.g. chunked messages with no END)
+function settleStreamingMessages(state: ChatState, messageIds: Id[], status: 'completed' | 'errored') {
+  for (const id of messageIds) {
+    const m = state.messages[id];
+    if (!m || m.status !== 'streaming') continue;
+    const s = state.streaming[id];
+    if (s && s.text) m.content = s.text;
+    m.status = status;
+    delete state.streaming[id];
+  }
+}
+
+/**
+ * Conversation an event belongs to. Transports tag events with their run's
+ * threadId; the runId or messageId are used when that is missing, and the
+ * active conversation only as a last resort.
+ */
+export function getEventConversation(state: ChatState, payload: any): Id | undefined {
+  const p = payload || {};
+  return p.conversationId
+    ?? p.threadId
+    ?? (p.runId ? state.runs[p.runId]?.conversationId : undefined)
+    ?? (p.messageId ? state.messages[p.messageId]?.conversationId : undefined)
+    ?? state.activeConversationId;
+}
+
+/**
+ * Running run an event belongs to - by runId, else the conversation's active run
+ */
+export function getEventRun(state: ChatState, payload: any): RunRecord | undefined {
+  const run = payload?.runId ? state.runs[payload.runId] : undefined;
+  if (run) return run.status === 'running' ? run : undefined;
+  return getActiveRun(state, getEventConversation(state, payload));
+}
+
+/**
+ * Apply a JSON Patch delta to an agent state document without mutating it.
+ * Throws if the patch does not validate against the document.
+ */
+export function applyAgentStateDelta<T>(doc: T, delta: Operation[]): T {
+  const copy = deepClone(doc);
+  const error = validate(delta, copy);
+  if (error) throw error;
+  return applyPatch(copy, delta, false, true).newDocument;
+}
+
+// Tool args are always an object - anything else parses to {}
+export function parsePartialArgs(text: string): Record<string, any> {
+  const value = parsePartialJson(text);
+  return isArgsObject(value) ? value : {};
+}
+
+function isArgsObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Args parser of each tool call, resumed on every delta
+const argsParsers = new WeakMap<ToolCallInProgress, PartialJsonParser>();
+
+/**
+ * Append a TOOL_CALL_ARGS delta and update partialArgs in place. A record
+ * the parser has not seen (e.g. one a snapshot brought back) is parsed from
+ * the start once.
+ */
+function appendToolCallArgs(tc: ToolCallInProgress, delta: string) {
+  let parser = argsParsers.get(tc);
+  let text = delta;
+  if (!parser || parser.length !== tc.args.length) {
+    parser = new PartialJsonParser();
+    argsParsers.set(tc, parser);
+    tc.partialArgs = {};
+    text = tc.args + delta;
+  }
+  tc.args += delta;
+
+  const updates = parser.push(text);
+  if (!isArgsObject(parser.value)) return;
+  for (const update of updates) {
+    if (update.path.length > 0) setPartialArg(tc.partialArgs, update);
+  }
+}
+
+function setPartialArg(args: Record<string, any>, { path, value }: PartialJsonUpdate) {
+  let node: any = args;
+  for (const segment of path.slice(0, -1)) node = node[segment];
+  node[path[path.length - 1]] = value;
+}
+
+function finishRunningSteps(state: ChatState, runId: string, at: string) {
+  for (const step of state.steps[runId] || []) {
+    if (step.status === 'running') {
+      step.status = 'finished';
+      step.finishedAt = at;
+    }
+  }
+}
+
+// AG-UI spec events understood by applySpecEvent (everything else is normalized)
+const SPEC_EVENT_TYPES = new Set<string>(Object.values(EventType));
+
+/**
+ * Single entry point for the reducer pipeline: routes an event to the spec or
+ * normalized reducer. Mutates and returns `state`, or returns a replacement
+ * state for snapshot events.
+ */
+export function applyEvent(state: ChatState, type: string, payload: any): ChatState {
+  return SPEC_EVENT_TYPES.has(type)
+    ? applySpecEvent(state, type as AgSpecEventType, payload)
+    : applyNormalizedEvent(state, type, payload);
+}
+
 // Mapping from AG-UI spec events to normalized state updates
 export function applySpecEvent(state: ChatState, type: AgSpecEventType, payload: AgSpecEventPayloads[AgSpecEventType]): ChatState {
   switch (type) {
     case 'STATE_SNAPSHOT': {
-      return initStateFromSnapshot(payload as any as StateSnapshot);
+      // Official AG-UI STATE_SNAPSHOT carries the agent's shared state, not the chat documents
+      const cid = getEventConversation(state, payload);
+      if (cid) {
+        state.agentStateByConversation[cid] = (payload as any).snapshot;
+        delete state.agentStateStale[cid];
+      }
+      return state;
     }
     case 'STATE_DELTA': {
-      const snap = toSnapshot(state);
-      const patch = (payload as any).delta as Operation[]; // Official AG-UI uses 'delta' field
-      applyPatch(snap as any, patch);
-      return initStateFromSnapshot(snap);
+      const cid = getEventConversation(state, payload);
+      if (!cid) return state;
+      const delta = (payload as any).delta as Operation[]; // Official AG-UI uses 'delta' field
+      const current = state.agentStateByConversation[cid];
+      try {
+        if (current === undefined) throw new Error('No agent state to patch');
+        state.agentStateByConversation[cid] = applyAgentStateDelta(current, delta);
+      } catch {
+        // Out of sync - keep the last good state until a fresh snapshot arrives
+        state.agentStateStale[cid] = true;
+      }
+      return state;
     }
     case 'MESSAGES_SNAPSHOT': {
-      // Replace messages and indexes, keep other fields
+      // Replace the conversation's messages and index, keep other conversations
       const msgs = (payload as any).messages as MessageDoc[];
-      state.messages = {} as any;
-      state.messagesByConversation = {} as any;
-      for (const m of msgs) {
+      const cid = getEventConversation(state, payload);
+      const unsent: MessageDoc[] = [];
+      if (cid) {
+        for (const id of state.messagesByConversation[cid] || []) {
+          const m = state.messages[id];
+          if (m && isUnsentMessage(m)) unsent.push({ ...m });
+          delete state.messages[id];
+        }
+        state.messagesByConversation[cid] = [];
+      }
+      let previousId: Id | null = null;
+      for (const snapMsg of msgs) {
+        const m: MessageDoc = { ...snapMsg, conversationId: snapMsg.conversationId ?? cid, status: snapMsg.status ?? 'completed' };
+        if (m.parentId === undefined) m.parentId = previousId; // No tree info - follow the previous message
+        previousId = m.id;
         state.messages[m.id] = m;
         if (m.conversationId) {
           const arr = state.messagesByConversation[m.conversationId] || (state.messagesByConversation[m.conversationId] = []);
-          arr.push(m.id);
+          if (!arr.includes(m.id)) arr.push(m.id);
         }
       }
+      keepUnsentMessages(state, unsent);
       return state;
     }
     case 'TEXT_MESSAGE_START': {
       const p = payload as any;
+      // A reconnected stream may replay the start event - resume the message in place
+      if (state.messages[p.messageId]?.status === 'streaming') return state;
       const m: MessageDoc = {
         id: p.messageId,
         role: (p.role || 'assistant') as any,
         content: '', // Official AG-UI field
-        conversationId: state.activeConversationId,
+        conversationId: getEventConversation(state, p),
         status: 'streaming',
         attachments: [],
         createdAt: new Date().toISOString()
       };
-      state.messages[m.id] = m;
-      if (m.conversationId) {
-        const arr = state.messagesByConversation[m.conversationId] || (state.messagesByConversation[m.conversationId] = []);
-        if (!arr.includes(m.id)) arr.push(m.id);
-      }
+      addMessage(state, m);
       state.streaming[m.id] = { text: '' };
+
+      const run = getEventRun(state, p);
+      if (run) {
+        run.messageIds.push(m.id);
+        // Reasoning that preceded this message belongs to it
+        if (run.pendingThinking) {
+          state.thinking[m.id] = run.pendingThinking;
+          delete run.pendingThinking;
+        }
+      }
       return state;
     }
     case 'TEXT_MESSAGE_CONTENT': {
@@ -218,30 +892,34 @@ export function applySpecEvent(state: ChatState, type: AgSpecEventType, payload:
       return state;
     }
     case 'TEXT_MESSAGE_CHUNK': {
+      // Chunks are START/CONTENT without an explicit END: the first chunk for a
+      // message opens it, later chunks append. The message stays streaming until
+      // a TEXT_MESSAGE_END for it arrives.
       const { messageId, role, delta } = payload as any;
       const id = messageId || `m_${Math.random().toString(36).slice(2, 8)}`;
-      const start: AgSpecEventPayloads['TEXT_MESSAGE_START'] = { type: EventType.TEXT_MESSAGE_START, messageId: id, role: (role || 'assistant') as any };
-      state = applySpecEvent(state, EventType.TEXT_MESSAGE_START, start);
+      if (!state.messages[id]) {
+        const start: AgSpecEventPayloads['TEXT_MESSAGE_START'] = { type: EventType.TEXT_MESSAGE_START, messageId: id, role: (role || 'assistant') as any };
+        state = applySpecEvent(state, EventType.TEXT_MESSAGE_START, start);
+      }
       if (delta) state = applySpecEvent(state, EventType.TEXT_MESSAGE_CONTENT, { type: EventType.TEXT_MESSAGE_CONTENT, messageId: id, delta } as any);
-      state = applySpecEvent(state, EventType.TEXT_MESSAGE_END, { type: EventType.TEXT_MESSAGE_END, messageId: id } as any);
       return state;
     }
     case 'TOOL_CALL_START': {
-      const { messageId, toolCallId, toolName } = payload as any;
-      state.toolCallsInProgress[toolCallId] = {
-        id: toolCallId,
-        name: toolName,
+      // Official AG-UI fields are toolCallName/parentMessageId; accept the legacy names too
+      const p = payload as any;
+      state.toolCallsInProgress[p.toolCallId] = {
+        id: p.toolCallId,
+        name: p.toolCallName ?? p.toolName,
         args: '',
-        messageId,
+        partialArgs: {},
+        messageId: p.parentMessageId ?? p.messageId,
       };
       return state;
     }
     case 'TOOL_CALL_ARGS': {
       const { toolCallId, delta } = payload as any;
       const tc = state.toolCallsInProgress[toolCallId];
-      if (tc) {
-        tc.args += delta || '';
-      }
+      if (tc) appendToolCallArgs(tc, delta || '');
       return state;
     }
     case 'TOOL_CALL_END': {
@@ -267,8 +945,123 @@ export function applySpecEvent(state: ChatState, type: AgSpecEventType, payload:
       return state;
     }
     case 'TOOL_CALL_RESULT': {
-      // Tool results in official AG-UI are separate tool-role messages
-      // Can be handled here if needed for UI display
+      // Tool results in official AG-UI are separate tool-role messages linked by toolCallId
+      const { messageId, toolCallId, content } = payload as any;
+      const parent = Object.values(state.messages).find(msg => msg.toolCalls?.some(tc => tc.id === toolCallId));
+      const conversationId = parent?.conversationId ?? getEventConversation(state, payload);
+      const m: MessageDoc = {
+        id: messageId,
+        role: 'tool',
+        content: content ?? '',
+        toolCallId,
+        conversationId,
+        status: 'completed',
+        createdAt: new Date().toISOString(),
+      };
+      addMessage(state, m);
+      if (conversationId) getEventRun(state, payload)?.messageIds.push(m.id);
+      return state;
+    }
+    case 'RUN_STARTED': {
+      const { threadId, runId } = payload as any;
+      state.runs[runId] = {
+        id: runId,
+        conversationId: threadId,
+        status: 'running',
+        startedAt: new Date().toISOString(),
+        messageIds: [],
+        custom: {},
+      };
+      const arr = state.runsByConversation[threadId] || (state.runsByConversation[threadId] = []);
+      if (!arr.includes(runId)) arr.push(runId);
+      state.steps[runId] = [];
+      return state;
+    }
+    case 'RUN_FINISHED': {
+      const { runId, result } = payload as any;
+      const run = state.runs[runId];
+      if (!run) return state;
+      const now = new Date().toISOString();
+      run.status = 'finished';
+      run.finishedAt = now;
+      if (result !== undefined) run.result = result;
+      settleStreamingMessages(state, run.messageIds, 'completed');
+      finishRunningSteps(state, runId, now);
+      // Reasoning with no message of its own belongs to the run's last message
+      const lastMessageId = run.messageIds[run.messageIds.length - 1];
+      if (run.pendingThinking && lastMessageId && !state.thinking[lastMessageId]) {
+        state.thinking[lastMessageId] = { ...run.pendingThinking, status: 'completed' };
+        delete run.pendingThinking;
+      }
+      return state;
+    }
+    case 'RUN_ERROR': {
+      // RUN_ERROR carries no ids in the spec - transports tag it with the run's
+      const { message, code } = payload as any;
+      const conversationId = getEventConversation(state, payload);
+      const run = getEventRun(state, payload);
+      if (run) {
+        run.status = 'errored';
+        run.finishedAt = new Date().toISOString();
+        run.error = { message, code };
+        settleStreamingMessages(state, run.messageIds, 'errored');
+        finishRunningSteps(state, run.id, run.finishedAt);
+      } else if (conversationId) {
+        settleStreamingMessages(state, state.messagesByConversation[conversationId] || [], 'errored');
+      }
+      return state;
+    }
+    case 'STEP_STARTED': {
+      const run = getEventRun(state, payload);
+      if (run) {
+        const steps = state.steps[run.id] || (state.steps[run.id] = []);
+        steps.push({ name: (payload as any).stepName, status: 'running', startedAt: new Date().toISOString() });
+      }
+      return state;
+    }
+    case 'STEP_FINISHED': {
+      const run = getEventRun(state, payload);
+      const steps = run ? state.steps[run.id] || [] : [];
+      // Close the most recent running step with this name
+      for (let i = steps.length - 1; i >= 0; i--) {
+        if (steps[i].name === (payload as any).stepName && steps[i].status === 'running') {
+          steps[i].status = 'finished';
+          steps[i].finishedAt = new Date().toISOString();
+          break;
+        }
+      }
+      return state;
+    }
+    case 'THINKING_START':
+    case 'THINKING_TEXT_MESSAGE_START': {
+      const run = getEventRun(state, payload);
+      if (run && run.pendingThinking?.status !== 'streaming') {
+        run.pendingThinking = { title: (payload as any).title, text: '', status: 'streaming' };
+      }
+      return state;
+    }
+    case 'THINKING_TEXT_MESSAGE_CONTENT': {
+      const run = getEventRun(state, payload);
+      if (run) {
+        const thinking = run.pendingThinking || (run.pendingThinking = { text: '', status: 'streaming' });
+        thinking.text += (payload as any).delta || '';
+      }
+      return state;
+    }
+    case 'THINKING_TEXT_MESSAGE_END':
+    case 'THINKING_END': {
+      const run = getEventRun(state, payload);
+      if (run?.pendingThinking) run.pendingThinking.status = 'completed';
+      return state;
+    }
+    case 'CUSTOM': {
+      const { name, value } = payload as any;
+      const run = getEventRun(state, payload);
+      if (run) run.custom[name] = value;
+      return state;
+    }
+    case 'RAW': {
+      // Opaque passthrough events - subscribe on the client to consume them
       return state;
     }
     default:
@@ -1,4 +1,5 @@
-import type { AgUiClient, AllEventType, StateSnapshot, ConversationDoc, MessageDoc, AttachmentDoc, Id } from '../types';
+import type { AgUiClient, AllEventType, StateSnapshot, ConversationDoc, MessageDoc, MessagePageOptions, AttachmentDoc, Id } from '../types';
+import { pageMessages } from '../transport/paging';
 
 type Handler<E extends AllEventType> = (payload: any) => void;
 
@@ -112,6 +113,7 @@ export class MockAgClient implements AgUiClient {
     options?: {
       attachments?: Id[];
       metadata?: Record<string, unknown>;
+      clientMessageId?: Id;
       onEvent?: (event: { type: string; data: any }) => void;
     }
   ): Promise<MessageDoc> {
@@ -129,7 +131,7 @@ export class MockAgClient implements AgUiClient {
     const userId = this.randId('m_');
     const userMsg: MessageDoc = {
       id: userId,
-      clientMessageId: crypto.randomUUID(),
+      clientMessageId: options?.clientMessageId ?? crypto.randomUUID(),
       conversationId: cid,
       role: 'user',
       content: text,
@@ -166,10 +168,10 @@ export class MockAgClient implements AgUiClient {
     return {} as MessageDoc; // Matches real client behavior
   }
 
-  async getMessages(conversationId: Id): Promise<MessageDoc[]> {
+  async getMessages(conversationId: Id, options?: MessagePageOptions): Promise<MessageDoc[]> {
     if (this.closed) throw new Error('Client closed');
     const msgIds = this.messagesByConversation.get(conversationId) || [];
-    return msgIds.map(id => this.messages.get(id)!).filter(Boolean);
+    return pageMessages(msgIds.map(id => this.messages.get(id)!).filter(Boolean), options);
   }
 
   async cancelMessage(conversationId: Id, messageId: Id): Promise<void> {
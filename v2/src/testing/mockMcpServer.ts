@@ -0,0 +1,180 @@
+import { MCP_PROTOCOL_VERSION } from '../mcp/client';
+import type { McpCallToolResult, McpTool } from '../mcp/client';
+import type { JsonRpcId, JsonRpcMessage, JsonRpcResponse, McpTransport } from '../mcp/transport';
+
+export interface MockMcpToolContext {
+  signal: AbortSignal; // Aborted when the client sends notifications/cancelled
+  progress: (progress: { progress: number; total?: number; message?: string }) => void;
+}
+
+export type MockMcpToolHandler = (
+  args: Record<string, unknown>,
+  context: MockMcpToolContext
+) => McpCallToolResult | Promise<McpCallToolResult>;
+
+export interface MockMcpServerOptions {
+  serverInfo?: { name: string; version: string };
+  pageSize?: number; // tools/list page size (default: all tools in one page)
+  failInitialize?: boolean; // Answer initialize with an error
+}
+
+/**
+ * In-process MCP server - hands out transports that talk to it directly,
+ * for testing McpClient and McpToolBridge without a network
+ *
+ * @example
+ * const server = new MockMcpServer();
+ * server.addTool({ name: 'echo', inputSchema: { type: 'object' } }, (args) => ({
+ *   content: [{ type: 'text', text: JSON.stringify(args) }],
+ * }));
+ * await bridge.addServer({ name: 'mock', transport: 'http', uri: 'mock://' }, { transport: server.createTransport() });
+ */
+export class MockMcpServer {
+  readonly received: JsonRpcMessage[] = []; // Every message from clients, in order
+  private tools = new Map<string, { tool: McpTool; handler: MockMcpToolHandler }>();
+  private transports = new Set<MockMcpTransport>();
+  private calls = new Map<JsonRpcId, AbortController>(); // Running tools/call requests
+
+  constructor(private options: MockMcpServerOptions = {}) {}
+
+  /**
+   * A transport connected to this server
+   */
+  createTransport(): MockMcpTransport {
+    return new MockMcpTransport(this);
+  }
+
+  /**
+   * Transports that are started and not closed
+   */
+  get openTransports(): number {
+    return this.transports.size;
+  }
+
+  /**
+   * Add (or replace) a tool; connected clients are told the list changed
+   */
+  addTool(tool: McpTool, handler: MockMcpToolHandler): void {
+    this.tools.set(tool.name, { tool, handler });
+    this.broadcast({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+  }
+
+  removeTool(name: string): void {
+    if (this.tools.delete(name)) {
+      this.broadcast({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    }
+  }
+
+  /** @internal */
+  open(transport: MockMcpTransport): void {
+    this.transports.add(transport);
+  }
+
+  /** @internal */
+  close(transport: MockMcpTransport): void {
+    this.transports.delete(transport);
+  }
+
+  /** @internal */
+  async handle(transport: MockMcpTransport, message: JsonRpcMessage): Promise<void> {
+    this.received.push(message);
+    if (!('method' in message)) return; // Responses to our (nonexistent) requests
+
+    if (!('id' in message)) {
+      if (message.method === 'notifications/cancelled') {
+        this.calls.get((message.params as any)?.requestId)?.abort();
+      }
+      return;
+    }
+
+    const reply = (result: unknown) => transport.deliver({ jsonrpc: '2.0', id: message.id, result });
+    const fail = (code: number, text: string) =>
+      transport.deliver({ jsonrpc: '2.0', id: message.id, error: { code, message: text } } as JsonRpcResponse);
+    const params = (message.params ?? {}) as Record<string, any>;
+
+    switch (message.method) {
+      case 'initialize':
+        if (this.options.failInitialize) return fail(-32603, 'Initialization failed');
+        return reply({
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: { tools: { listChanged: true } },
+          serverInfo: this.options.serverInfo ?? { name: 'mock-mcp', version: '1.0.0' },
+        });
+      case 'ping':
+        return reply({});
+      case 'tools/list': {
+        const all = [...this.tools.values()].map(t => t.tool);
+        const start = Number(params.cursor ?? 0);
+        const size = this.options.pageSize ?? all.length;
+        const end = start + size;
+        return reply({ tools: all.slice(start, end), ...(end < all.length ? { nextCursor: String(end) } : {}) });
+      }
+      case 'tools/call': {
+        const entry = this.tools.get(params.name);
+        if (!entry) return fail(-32602, `Unknown tool: ${params.name}`);
+        const controller = new AbortController();
+        this.calls.set(message.id, controller);
+        const progressToken = params._meta?.progressToken;
+        try {
+          const result = await entry.handler(params.arguments ?? {}, {
+            signal: controller.signal,
+            progress: (progress) => {
+              if (progressToken === undefined) return;
+              transport.deliver({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken, ...progress } });
+            },
+          });
+          if (!controller.signal.aborted) reply(result); // Cancelled requests get no response
+        } catch (error) {
+          if (!controller.signal.aborted) fail(-32603, error instanceof Error ? error.message : String(error));
+        } finally {
+          this.calls.delete(message.id);
+        }
+        return;
+      }
+      default:
+        return fail(-32601, `Method not found: ${message.method}`);
+    }
+  }
+
+  private broadcast(message: JsonRpcMessage): void {
+    for (const transport of this.transports) transport.deliver(message);
+  }
+}
+
+/**
+ * Client side of a MockMcpServer connection. Messages are delivered
+ * asynchronously, like over a real connection.
+ */
+export class MockMcpTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onerror?: (error: Error) => void;
+  onclose?: () => void;
+  started = false;
+  closed = false;
+
+  constructor(private server: MockMcpServer) {}
+
+  async start(): Promise<void> {
+    if (this.closed) throw new Error('Transport closed');
+    this.started = true;
+    this.server.open(this);
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.started || this.closed) throw new Error('Transport not open');
+    queueMicrotask(() => { void this.server.handle(this, message); });
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.server.close(this);
+    this.onclose?.();
+  }
+
+  /** @internal */
+  deliver(message: JsonRpcMessage): void {
+    if (this.closed) return;
+    queueMicrotask(() => this.onmessage?.(message));
+  }
+}
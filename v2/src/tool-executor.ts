@@ -4,83 +4,296 @@
 // =============================================================================
 
 import type { Tool } from '@ag-ui/core';
-import type { ToolHandler, RegisteredTool, ToolExecution, ToolExecutionStatus } from './types';
+import { createStore, reconcile, unwrap } from 'solid-js/store';
+import type { SetStoreFunction } from 'solid-js/store';
+import type {
+  ToolHandler,
+  ToolResult,
+  ToolContentBlock,
+  RegisteredTool,
+  ToolExecution,
+  ToolExecutionStatus,
+  ToolApprovalPolicy,
+  ToolRetryPolicy,
+} from './types';
+import { validateToolArgs } from './tool-validation';
+import type { ToolArgsIssue } from './tool-validation';
+
+export interface ToolExecutorOptions {
+  defaultPolicy?: ToolApprovalPolicy; // Policy for tools registered without one (default: 'auto')
+  defaultTimeoutMs?: number; // Per-attempt timeout for tools registered without one (default: none)
+  maxConcurrency?: number; // Handlers running at once - further calls wait their turn (default: 4)
+}
+
+/**
+ * Thrown by executeTool when a call is denied by policy or rejected by the user.
+ * The agent should be told, so the store sends toToolResult() back as the tool result.
+ */
+export class ToolRejectedError extends Error {
+  constructor(
+    public toolCallId: string,
+    public toolName: string,
+    public reason: string
+  ) {
+    super(`Tool "${toolName}" was rejected: ${reason}`);
+    this.name = 'ToolRejectedError';
+  }
+
+  /**
+   * Structured refusal for the agent
+   */
+  toToolResult(): string {
+    return JSON.stringify({
+      status: 'rejected',
+      error: 'TOOL_CALL_REJECTED',
+      toolName: this.toolName,
+      reason: this.reason,
+    });
+  }
+}
+
+/**
+ * Thrown by executeTool when the arguments are not valid JSON or do not match
+ * the tool's parameters schema. The store sends toToolResult() back so the
+ * model can correct the call and retry.
+ */
+export class ToolArgumentsError extends Error {
+  readonly code = 'INVALID_TOOL_ARGUMENTS';
+
+  constructor(
+    public toolCallId: string,
+    public toolName: string,
+    public issues: ToolArgsIssue[]
+  ) {
+    super(`Invalid arguments for tool "${toolName}": ${issues.map(i => `${i.path || '/'} ${i.message}`).join('; ')}`);
+    this.name = 'ToolArgumentsError';
+  }
+
+  /**
+   * Machine-readable validation error for the agent
+   */
+  toToolResult(): string {
+    return JSON.stringify({
+      status: 'error',
+      error: this.code,
+      toolName: this.toolName,
+      issues: this.issues,
+    });
+  }
+}
+
+/**
+ * Thrown by executeTool when the tool is missing or its handler failed on
+ * every attempt. The store sends toToolResult() back so the run can continue.
+ */
+export class ToolExecutionError extends Error {
+  constructor(
+    public toolCallId: string,
+    public toolName: string,
+    message: string,
+    public code: string = 'TOOL_EXECUTION_FAILED',
+    public attempts: number = 1,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ToolExecutionError';
+  }
+
+  /**
+   * Machine-readable execution error for the agent
+   */
+  toToolResult(): string {
+    return JSON.stringify({
+      status: 'error',
+      error: this.code,
+      toolName: this.toolName,
+      message: this.message,
+      attempts: this.attempts,
+    });
+  }
+}
+
+// Approval waiting on approve() / reject()
+interface PendingApproval {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// Abort handles for a running execution
+interface ExecutionControl {
+  canceled: AbortController; // Aborted by cancel() - ends the execution
+  attempt: AbortController; // Aborted by cancel() or the timeout - replaced for each retry
+  holdsSlot: boolean; // Given up while an interactive call waits for the user
+  timeout?: PausableTimeout; // The current attempt's timeout, if it has one
+}
 
 /**
  * Manages frontend tool registration and execution
  * Implements the bidirectional tool execution pattern from AG-UI:
  * 1. Frontend registers tools with handlers
  * 2. Agent requests tool execution via TOOL_CALL_* events
- * 3. ToolExecutor executes the handler
+ * 3. ToolExecutor checks the tool's approval policy, then executes the handler
  * 4. Result is sent back to agent as tool message
  */
 export class ToolExecutor {
-  private tools = new Map<string, RegisteredTool>();
-  private executions = new Map<string, ToolExecution>();
+  private tools = new Map<string, RegisteredTool>(); // Global registrations
+  private scopedTools = new Map<string, Map<string, RegisteredTool>>(); // conversationId -> registrations
+  private state: { executions: Record<string, ToolExecution> }; // Reactive - toolCallId -> execution
+  private setState: SetStoreFunction<{ executions: Record<string, ToolExecution> }>;
   private eventHandlers = new Map<string, Set<Function>>();
+  private approvals = new Map<string, PendingApproval>(); // toolCallId -> waiting approval
+  private controls = new Map<string, ExecutionControl>(); // toolCallId -> running handler
+  private responders = new Map<string, (result: ToolResult) => void>(); // toolCallId -> waitForResponse() resolver
+  private slotWaiters: (() => void)[] = []; // Executions waiting for a free slot, in call order
+  private running = 0;
+  private defaultPolicy: ToolApprovalPolicy;
+  private defaultTimeoutMs?: number;
+  private maxConcurrency: number;
+
+  constructor(options: ToolExecutorOptions = {}) {
+    this.defaultPolicy = options.defaultPolicy ?? 'auto';
+    this.defaultTimeoutMs = options.defaultTimeoutMs;
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 4);
+    [this.state, this.setState] = createStore<{ executions: Record<string, ToolExecution> }>({ executions: {} });
+  }
 
   /**
    * Register a tool with its handler function
-   * @param tool Tool definition (AG-UI Tool interface)
-   * @param handler Function to execute when tool is called
+   * @param tool Tool definition (AG-UI Tool interface) - `parameters` is the JSON Schema args are validated against
+   * @param handler Function to execute when tool is called, with validated args (defaults applied)
+   * @param options.policy 'auto' | 'confirm' | 'deny' (defaults to the executor's defaultPolicy)
+   * @param options.retry Retry a failing handler ({ maxAttempts, backoffMs, backoffMultiplier })
+   * @param options.timeoutMs Abort an attempt that runs longer than this
+   * @param options.conversationId Only offer and run the tool in this conversation
+   *        (a scoped tool shadows a global one of the same name)
+   * @returns Function that unregisters this registration (a no-op once it was replaced)
    */
-  registerTool(tool: Tool, handler: ToolHandler): void {
-    if (this.tools.has(tool.name)) {
-      console.warn(`Tool "${tool.name}" is already registered, overwriting`);
+  registerTool<TArgs = Record<string, any>>(
+    tool: Tool,
+    handler: ToolHandler<TArgs>,
+    options?: { policy?: ToolApprovalPolicy; retry?: ToolRetryPolicy; timeoutMs?: number; conversationId?: string }
+  ): () => void {
+    const conversationId = options?.conversationId;
+    const scope = this.getScope(conversationId, true)!;
+    if (scope.has(tool.name)) {
+      console.warn(`Tool "${tool.name}" is already registered${conversationId ? ` in ${conversationId}` : ''}, overwriting`);
     }
 
-    this.tools.set(tool.name, { tool, handler });
-    this.emit('tool.registered', { toolName: tool.name });
+    const registration: RegisteredTool = {
+      tool,
+      handler: handler as ToolHandler,
+      policy: options?.policy,
+      retry: options?.retry,
+      timeoutMs: options?.timeoutMs,
+      conversationId,
+    };
+    scope.set(tool.name, registration);
+    this.emit('tool.registered', { toolName: tool.name, conversationId });
+
+    return () => {
+      if (this.getScope(conversationId)?.get(tool.name) === registration) {
+        this.unregisterTool(tool.name, conversationId);
+      }
+    };
   }
 
   /**
-   * Unregister a tool by name
+   * Effective approval policy for a tool
    */
-  unregisterTool(toolName: string): void {
-    const removed = this.tools.delete(toolName);
+  getPolicy(toolName: string, conversationId?: string): ToolApprovalPolicy {
+    return this.getTool(toolName, conversationId)?.policy ?? this.defaultPolicy;
+  }
+
+  /**
+   * Unregister a tool by name (from a conversation's scope, or the global one)
+   */
+  unregisterTool(toolName: string, conversationId?: string): void {
+    const scope = this.getScope(conversationId);
+    const removed = !!scope?.delete(toolName);
+    if (conversationId && scope?.size === 0) this.scopedTools.delete(conversationId);
     if (removed) {
-      this.emit('tool.unregistered', { toolName });
+      this.emit('tool.unregistered', { toolName, conversationId });
     }
   }
 
   /**
-   * Get all registered tools (for passing to agent)
+   * Get the tools in scope (for passing to agent) - global tools, plus the
+   * conversation's own when conversationId is given
    */
-  getTools(): Tool[] {
-    return Array.from(this.tools.values()).map(rt => rt.tool);
+  getTools(conversationId?: string): Tool[] {
+    const tools = new Map(Array.from(this.tools.values()).map(rt => [rt.tool.name, rt.tool]));
+    if (conversationId) {
+      for (const rt of this.scopedTools.get(conversationId)?.values() ?? []) tools.set(rt.tool.name, rt.tool);
+    }
+    return Array.from(tools.values());
   }
 
   /**
-   * Get a registered tool by name
+   * Get a registered tool by name - a conversation's own registration wins over a global one
    */
-  getTool(toolName: string): RegisteredTool | undefined {
-    return this.tools.get(toolName);
+  getTool(toolName: string, conversationId?: string): RegisteredTool | undefined {
+    return (conversationId && this.scopedTools.get(conversationId)?.get(toolName)) || this.tools.get(toolName);
+  }
+
+  // Registrations of a conversation, or the global ones
+  private getScope(conversationId: string | undefined, create = false): Map<string, RegisteredTool> | undefined {
+    if (!conversationId) return this.tools;
+    let scope = this.scopedTools.get(conversationId);
+    if (!scope && create) this.scopedTools.set(conversationId, (scope = new Map()));
+    return scope;
   }
 
   /**
    * Execute a tool call
    * @param toolCallId Unique ID for this tool call
    * @param toolName Name of the tool to execute
-   * @param args Arguments to pass to the tool
+   * @param args Arguments to pass to the tool (object, or the raw JSON string from TOOL_CALL_ARGS)
    * @param conversationId Conversation context
    * @param messageId Message context
-   * @returns Promise that resolves to the tool result string
+   * @returns Promise that resolves to the serialized tool result, ready for the agent
+   * @throws ToolArgumentsError when the arguments do not match the tool's schema
+   * @throws ToolRejectedError when the call is denied or rejected
+   * @throws ToolExecutionError when the tool is missing, its handler keeps failing
+   *         or times out ('TOOL_TIMEOUT'), or the execution is canceled ('TOOL_CANCELED')
    */
   async executeTool(
     toolCallId: string,
     toolName: string,
-    args: Record<string, any>,
+    rawArgs: Record<string, any> | string,
     conversationId: string,
     messageId: string
   ): Promise<string> {
-    const registeredTool = this.tools.get(toolName);
+    const registeredTool = this.getTool(toolName, conversationId);
+    let args: Record<string, any> = typeof rawArgs === 'string' ? {} : rawArgs;
 
     if (!registeredTool) {
-      const error = new Error(`Tool "${toolName}" not found`);
+      const error = new ToolExecutionError(toolCallId, toolName, `Tool "${toolName}" not found`, 'TOOL_NOT_FOUND');
       this.recordExecution(toolCallId, toolName, args, conversationId, messageId, 'failed', undefined, error);
       throw error;
     }
 
+    // Validate before asking for approval or running anything
+    const invalid = (issues: ToolArgsIssue[]) => {
+      const error = new ToolArgumentsError(toolCallId, toolName, issues);
+      this.recordExecution(toolCallId, toolName, args, conversationId, messageId, 'failed', undefined, error);
+      this.emit('tool.execution.failed', { toolCallId, error });
+      return error;
+    };
+
+    if (typeof rawArgs === 'string') {
+      try {
+        args = JSON.parse(rawArgs || '{}');
+      } catch (e) {
+        throw invalid([{ path: '', keyword: 'json', message: `is not valid JSON: ${(e as Error).message}` }]);
+      }
+    }
+
+    const validation = validateToolArgs(registeredTool.tool.parameters, args);
+    if (!validation.valid) throw invalid(validation.issues);
+    args = validation.value;
+
+    const policy = registeredTool.policy ?? this.defaultPolicy;
+
     // Create execution record
     const execution: ToolExecution = {
       toolCallId,
@@ -88,34 +301,291 @@ export class ToolExecutor {
       args,
       conversationId,
       messageId,
-      status: 'executing',
+      status: policy === 'auto' ? 'executing' : 'pending',
       startedAt: Date.now(),
     };
 
-    this.executions.set(toolCallId, execution);
-    this.emit('tool.execution.started', { toolCallId, toolName, args });
+    this.setState('executions', toolCallId, execution);
+
+    if (policy === 'deny') {
+      this.markRejected(execution, 'Tool is not allowed to run');
+      throw new ToolRejectedError(toolCallId, toolName, execution.rejectionReason!);
+    }
+
+    if (policy === 'confirm') {
+      // Park in 'pending' until the UI calls approve() or reject()
+      this.emit('tool.approval.requested', { toolCallId, toolName, args, conversationId });
+      await new Promise<void>((resolve, reject) => {
+        this.approvals.set(toolCallId, { resolve, reject });
+      });
+      this.update(execution, { status: 'executing', startedAt: Date.now() });
+    }
+
+    const control: ExecutionControl = { canceled: new AbortController(), attempt: new AbortController(), holdsSlot: false };
+    this.controls.set(toolCallId, control);
 
+    // Wait for a free slot - the slot is held across retries
     try {
-      // Execute the handler
-      const result = await registeredTool.handler(args);
+      await this.acquireSlot(control.canceled.signal);
+      control.holdsSlot = true;
+    } catch {
+      this.controls.delete(toolCallId);
+      throw this.markCanceled(execution, (control.canceled.signal.reason as Error).message);
+    }
 
-      // Update execution record
-      execution.status = 'completed';
-      execution.result = result;
-      execution.completedAt = Date.now();
+    try {
+      // cancel() may have landed while the slot was being handed over
+      if (control.canceled.signal.aborted) {
+        this.controls.delete(toolCallId);
+        throw this.markCanceled(execution, (control.canceled.signal.reason as Error).message);
+      }
+      return await this.runHandler(execution, registeredTool, args, control);
+    } finally {
+      this.responders.delete(toolCallId);
+      if (execution.awaitingResponse) this.update(execution, { awaitingResponse: false });
+      if (control.holdsSlot) {
+        control.holdsSlot = false;
+        this.releaseSlot();
+      }
+    }
+  }
 
-      this.emit('tool.execution.completed', { toolCallId, result });
+  /**
+   * Run a handler with its timeout and retry policy
+   */
+  private async runHandler(
+    execution: ToolExecution,
+    registeredTool: RegisteredTool,
+    args: Record<string, any>,
+    control: ExecutionControl
+  ): Promise<string> {
+    const { toolCallId, toolName, conversationId, messageId } = execution;
+    const maxAttempts = Math.max(1, registeredTool.retry?.maxAttempts ?? 1);
+    const backoffMs = registeredTool.retry?.backoffMs ?? 500;
+    const backoffMultiplier = registeredTool.retry?.backoffMultiplier ?? 2;
+    const timeoutMs = registeredTool.timeoutMs ?? this.defaultTimeoutMs;
+
+    this.emit('tool.execution.started', { toolCallId, toolName, args });
+
+    const context = {
+      toolCallId,
+      conversationId,
+      messageId,
+      get signal() {
+        return control.attempt.signal;
+      },
+      onProgress: (progress: unknown) => {
+        if (execution.status !== 'executing') return;
+        this.update(execution, { progress });
+        this.emit('tool.execution.progress', { toolCallId, progress });
+      },
+      waitForResponse: async () => {
+        // The user may take a while - free the slot for other calls and stop the clock
+        control.timeout?.pause();
+        if (control.holdsSlot) {
+          control.holdsSlot = false;
+          this.releaseSlot();
+        }
+        this.update(execution, { awaitingResponse: true });
+        this.emit('tool.response.requested', { toolCallId });
+        const result = await new Promise<ToolResult>(resolve => this.responders.set(toolCallId, resolve));
+
+        await this.acquireSlot(control.canceled.signal);
+        control.holdsSlot = true;
+        control.timeout?.resume();
+        return result;
+      },
+    };
 
-      return result;
-    } catch (error) {
-      // Update execution record with error
-      execution.status = 'failed';
-      execution.error = error instanceof Error ? error : new Error(String(error));
-      execution.completedAt = Date.now();
+    for (let attempt = 1; ; attempt++) {
+      this.update(execution, { attempts: attempt });
+      control.attempt = new AbortController();
+      let timedOut = false;
+      control.timeout = timeoutMs
+        ? new PausableTimeout(timeoutMs, () => {
+            timedOut = true;
+            control.attempt.abort(new Error(`Timed out after ${timeoutMs}ms`));
+          })
+        : undefined;
 
-      this.emit('tool.execution.failed', { toolCallId, error: execution.error });
+      try {
+        // Execute the handler - an abort settles the attempt even if the handler ignores the signal
+        const result = await raceAbort(
+          settleHandler(registeredTool.handler(args, context), context.onProgress, control.attempt.signal),
+          control.attempt.signal
+        );
+        control.timeout?.clear();
+        const output = serializeToolResult(result);
 
-      throw execution.error;
+        // Update execution record
+        this.update(execution, { status: 'completed', result, output, completedAt: Date.now() });
+
+        this.emit('tool.execution.completed', { toolCallId, result, output });
+        this.controls.delete(toolCallId);
+
+        return output;
+      } catch (error) {
+        control.timeout?.clear();
+        const cause = error instanceof Error ? error : new Error(String(error));
+
+        if (attempt < maxAttempts && !control.canceled.signal.aborted) {
+          const delay = backoffMs * Math.pow(backoffMultiplier, attempt - 1);
+          this.emit('tool.execution.retrying', { toolCallId, attempt, error: cause, delayMs: delay });
+          try {
+            await raceAbort(new Promise(resolve => setTimeout(resolve, delay)), control.canceled.signal);
+            continue;
+          } catch {
+            // Canceled while backing off
+          }
+        }
+
+        if (control.canceled.signal.aborted) {
+          this.controls.delete(toolCallId);
+          throw this.markCanceled(execution, (control.canceled.signal.reason as Error).message);
+        }
+
+        // Update execution record with error
+        this.controls.delete(toolCallId);
+        const failure = new ToolExecutionError(
+          toolCallId,
+          toolName,
+          cause.message,
+          timedOut ? 'TOOL_TIMEOUT' : 'TOOL_EXECUTION_FAILED',
+          attempt,
+          cause
+        );
+        this.update(execution, { status: 'failed', error: failure, completedAt: Date.now() });
+
+        this.emit('tool.execution.failed', { toolCallId, error: failure });
+
+        throw failure;
+      }
+    }
+  }
+
+  /**
+   * Approve a tool call waiting in 'pending' - it starts executing
+   */
+  approve(toolCallId: string): void {
+    const approval = this.approvals.get(toolCallId);
+    if (!approval) return;
+    this.approvals.delete(toolCallId);
+    this.emit('tool.approval.approved', { toolCallId });
+    approval.resolve();
+  }
+
+  /**
+   * Reject a tool call waiting in 'pending' - the agent receives a refusal
+   */
+  reject(toolCallId: string, reason = 'Rejected by user'): void {
+    const approval = this.approvals.get(toolCallId);
+    const execution = this.state.executions[toolCallId];
+    if (!approval || !execution) return;
+    this.approvals.delete(toolCallId);
+    this.markRejected(execution, reason);
+    approval.reject(new ToolRejectedError(toolCallId, execution.toolName, reason));
+  }
+
+  /**
+   * Resolve an interactive call - the handler's waitForResponse() returns this result
+   * @returns false when the call is not waiting for a response
+   */
+  respond(toolCallId: string, result: ToolResult): boolean {
+    const resolve = this.responders.get(toolCallId);
+    if (!resolve) return false;
+    this.responders.delete(toolCallId);
+    const execution = this.state.executions[toolCallId];
+    if (execution) this.update(execution, { awaitingResponse: false });
+    this.emit('tool.response.received', { toolCallId, result });
+    resolve(result);
+    return true;
+  }
+
+  /**
+   * Cancel an execution - aborts its handler's signal, or withdraws it if it
+   * is still waiting for approval. Nothing is sent to the agent.
+   */
+  cancel(toolCallId: string, reason = 'Canceled'): void {
+    const approval = this.approvals.get(toolCallId);
+    const execution = this.state.executions[toolCallId];
+    if (approval && execution) {
+      this.approvals.delete(toolCallId);
+      approval.reject(this.markCanceled(execution, reason));
+      return;
+    }
+
+    const control = this.controls.get(toolCallId);
+    if (control && !control.canceled.signal.aborted) {
+      control.canceled.abort(new Error(reason));
+      control.attempt.abort(new Error(reason));
+    }
+  }
+
+  /**
+   * Cancel every execution requested by an assistant message
+   */
+  cancelForMessage(messageId: string, reason = 'Message canceled'): void {
+    for (const execution of Object.values(this.state.executions)) {
+      if (execution.messageId === messageId) this.cancel(execution.toolCallId, reason);
+    }
+  }
+
+  /**
+   * Cancel every execution in a conversation (all conversations when omitted)
+   */
+  cancelForConversation(conversationId?: string, reason = 'Conversation closed'): void {
+    for (const execution of Object.values(this.state.executions)) {
+      if (!conversationId || execution.conversationId === conversationId) this.cancel(execution.toolCallId, reason);
+    }
+  }
+
+  private acquireSlot(signal: AbortSignal): Promise<void> {
+    if (signal.aborted) return Promise.reject(signal.reason);
+    if (this.running < this.maxConcurrency) {
+      this.running++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.slotWaiters = this.slotWaiters.filter(w => w !== grant);
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.slotWaiters.push(grant);
+    });
+  }
+
+  private releaseSlot(): void {
+    // Hand the slot straight to the next waiter, if any
+    const next = this.slotWaiters.shift();
+    if (next) next();
+    else this.running--;
+  }
+
+  private markCanceled(execution: ToolExecution, reason: string): ToolExecutionError {
+    const error = new ToolExecutionError(execution.toolCallId, execution.toolName, reason, 'TOOL_CANCELED', execution.attempts ?? 0);
+    this.update(execution, { status: 'canceled', error, completedAt: Date.now() });
+    this.emit('tool.execution.canceled', { toolCallId: execution.toolCallId, reason });
+    return error;
+  }
+
+  private markRejected(execution: ToolExecution, reason: string): void {
+    this.update(execution, { status: 'rejected', rejectionReason: reason, completedAt: Date.now() });
+    this.emit('tool.execution.rejected', { toolCallId: execution.toolCallId, reason });
+  }
+
+  // Apply changes to an execution record - readers of the store are notified.
+  // A record that was cleared meanwhile is updated without resurrecting it.
+  private update(execution: ToolExecution, changes: Partial<ToolExecution>): void {
+    const raw = unwrap(execution);
+    if (unwrap(this.state.executions[raw.toolCallId]) === raw) {
+      this.setState('executions', raw.toolCallId, changes);
+    } else {
+      Object.assign(raw, changes);
     }
   }
 
@@ -145,21 +615,22 @@ export class ToolExecutor {
       completedAt: status !== 'pending' && status !== 'executing' ? Date.now() : undefined,
     };
 
-    this.executions.set(toolCallId, execution);
+    this.setState('executions', toolCallId, execution);
   }
 
   /**
-   * Get execution state for a tool call
+   * Get execution state for a tool call - reactive: reading it in a tracking
+   * scope (memo, effect, JSX) re-runs on every change of the record
    */
   getExecution(toolCallId: string): ToolExecution | undefined {
-    return this.executions.get(toolCallId);
+    return this.state.executions[toolCallId];
   }
 
   /**
-   * Get all executions (optionally filtered by conversation)
+   * Get all executions (optionally filtered by conversation) - reactive
    */
   getExecutions(conversationId?: string): ToolExecution[] {
-    const executions = Array.from(this.executions.values());
+    const executions = Object.values(this.state.executions);
     if (conversationId) {
       return executions.filter(e => e.conversationId === conversationId);
     }
@@ -167,7 +638,7 @@ export class ToolExecutor {
   }
 
   /**
-   * Get pending tool calls (not yet executed or in progress)
+   * Get pending tool calls (awaiting approval or in progress)
    */
   getPendingExecutions(conversationId?: string): ToolExecution[] {
     return this.getExecutions(conversationId).filter(
@@ -180,13 +651,15 @@ export class ToolExecutor {
    */
   clearExecutions(conversationId?: string): void {
     if (conversationId) {
-      for (const [id, exec] of this.executions.entries()) {
+      for (const exec of Object.values(this.state.executions)) {
         if (exec.conversationId === conversationId) {
-          this.executions.delete(id);
+          this.cancel(exec.toolCallId, 'Execution cleared');
+          this.setState('executions', exec.toolCallId, undefined!);
         }
       }
     } else {
-      this.executions.clear();
+      this.cancelForConversation(undefined, 'Execution cleared');
+      this.setState('executions', reconcile({}));
     }
   }
 
@@ -232,8 +705,116 @@ export class ToolExecutor {
    * Clean up all registrations and executions
    */
   destroy(): void {
+    this.cancelForConversation(undefined, 'Tool executor destroyed');
     this.tools.clear();
-    this.executions.clear();
+    this.scopedTools.clear();
+    this.setState('executions', reconcile({}));
     this.eventHandlers.clear();
   }
 }
+
+// An attempt's timeout - paused while the handler waits for the user
+class PausableTimeout {
+  private timer?: ReturnType<typeof setTimeout>;
+  private startedAt = 0;
+  private done = false;
+
+  constructor(private remainingMs: number, private onTimeout: () => void) {
+    this.resume();
+  }
+
+  pause(): void {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.remainingMs -= Date.now() - this.startedAt;
+  }
+
+  resume(): void {
+    if (this.timer || this.done) return;
+    this.startedAt = Date.now();
+    this.timer = setTimeout(() => {
+      this.done = true;
+      this.onTimeout();
+    }, Math.max(0, this.remainingMs));
+  }
+
+  clear(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.done = true;
+  }
+}
+
+// Settle with the handler's result, or reject as soon as the signal aborts
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Handler for tools completed from the UI: waits for the tool's component
+ * (see <ToolCallView>) to call respond() and returns what it submitted
+ */
+export const interactiveToolHandler: ToolHandler = (_args, context) => context.waitForResponse();
+
+/**
+ * Serialize a handler's result for the agent. Strings pass through; content
+ * blocks are wrapped as `{"content":[...]}` and other values become JSON.
+ */
+export function serializeToolResult(result: ToolResult | undefined): string {
+  if (typeof result === 'string') return result;
+  if (result === undefined) return '';
+  if (isContentBlocks(result)) return JSON.stringify({ content: result });
+  return JSON.stringify(result);
+}
+
+/**
+ * Whether a tool result is a list of content blocks
+ */
+export function isContentBlocks(result: unknown): result is ToolContentBlock[] {
+  return (
+    Array.isArray(result) &&
+    result.length > 0 &&
+    result.every(b => b && typeof b === 'object' && ['text', 'image', 'file'].includes((b as any).type))
+  );
+}
+
+// Await a handler's result; a generator's yields are reported as progress
+async function settleHandler(
+  output: ReturnType<ToolHandler>,
+  onProgress: (progress: unknown) => void,
+  signal: AbortSignal
+): Promise<ToolResult> {
+  if (!isAsyncGenerator(output)) return output;
+
+  // Stop the generator if the attempt is aborted between yields
+  const stop = () => output.return(undefined as any).catch(() => {});
+  signal.addEventListener('abort', stop, { once: true });
+  try {
+    while (true) {
+      const step = await output.next();
+      if (step.done) return step.value;
+      onProgress(step.value);
+    }
+  } finally {
+    signal.removeEventListener('abort', stop);
+  }
+}
+
+function isAsyncGenerator(value: unknown): value is AsyncGenerator<unknown, ToolResult, void> {
+  return !!value && typeof (value as any).next === 'function' && typeof (value as any)[Symbol.asyncIterator] === 'function';
+}
@@ -0,0 +1,188 @@
+// =============================================================================
+// Tool Argument Validation
+// Validates tool call arguments against the tool's JSON Schema (`Tool.parameters`)
+// and fills in defaults. Covers the subset of JSON Schema used for tool
+// parameters: type, enum, const, properties, required, additionalProperties,
+// items, string/number/array bounds, pattern, anyOf/oneOf/allOf and default.
+// =============================================================================
+
+/**
+ * A single validation failure
+ */
+export interface ToolArgsIssue {
+  path: string; // JSON Pointer to the offending value ('' for the root)
+  keyword: string; // Schema keyword that failed (e.g. 'required', 'type')
+  message: string;
+}
+
+export interface ToolArgsValidationResult<T = Record<string, any>> {
+  valid: boolean;
+  value: T; // Arguments with defaults applied
+  issues: ToolArgsIssue[];
+}
+
+type Schema = Record<string, any>;
+
+/**
+ * Validate arguments against a JSON Schema, applying `default` values for
+ * missing properties. The input is not modified.
+ *
+ * @example
+ * ```ts
+ * const { valid, value, issues } = validateToolArgs(tool.parameters, args);
+ * ```
+ */
+export function validateToolArgs<T = Record<string, any>>(
+  schema: unknown,
+  args: unknown
+): ToolArgsValidationResult<T> {
+  const issues: ToolArgsIssue[] = [];
+  const value = isSchema(schema) ? check(schema, clone(args), '', issues) : args;
+  return { valid: issues.length === 0, value: value as T, issues };
+}
+
+function isSchema(schema: unknown): schema is Schema {
+  return !!schema && typeof schema === 'object' && !Array.isArray(schema);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// JSON Schema patterns are ECMA-262 with unicode semantics - a pattern that
+// does not compile is a schema error, reported as an issue rather than thrown
+function compilePattern(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern, 'u');
+  } catch {
+    return undefined;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+// Validate one value, returning it with defaults applied
+function check(schema: Schema, value: any, path: string, issues: ToolArgsIssue[]): any {
+  const issue = (keyword: string, message: string) => issues.push({ path, keyword, message });
+
+  // Combinators - validated against a scratch list so only real failures surface
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) if (isSchema(sub)) value = check(sub, value, path, issues);
+  }
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    const options = schema[keyword];
+    if (!Array.isArray(options)) continue;
+    const passing = options.filter(sub => isSchema(sub) && collectIssues(sub, value, path).length === 0);
+    if (passing.length === 0 || (keyword === 'oneOf' && passing.length > 1)) {
+      issue(keyword, keyword === 'oneOf' && passing.length > 1
+        ? 'must match exactly one schema'
+        : 'must match at least one schema');
+    } else {
+      value = check(passing[0], value, path, []);
+    }
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      issue('type', `must be ${types.join(' or ')}`);
+      return value;
+    }
+  }
+
+  if ('const' in schema && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    issue('const', `must be ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((e: unknown) => JSON.stringify(e) === JSON.stringify(value))) {
+    issue('enum', `must be one of ${schema.enum.map((e: unknown) => JSON.stringify(e)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      issue('minLength', `must have at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      issue('maxLength', `must have at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      const pattern = compilePattern(schema.pattern);
+      if (!pattern) issue('pattern', `has an invalid schema pattern ${schema.pattern}`);
+      else if (!pattern.test(value)) issue('pattern', `must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) issue('minimum', `must be >= ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) issue('maximum', `must be <= ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      issue('exclusiveMinimum', `must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      issue('exclusiveMaximum', `must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issue('minItems', `must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issue('maxItems', `must have at most ${schema.maxItems} items`);
+    }
+    if (isSchema(schema.items)) {
+      value = value.map((item, i) => check(schema.items, item, `${path}/${i}`, issues));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const properties: Record<string, Schema> = isSchema(schema.properties) ? schema.properties : {};
+
+    // Defaults first, so `required` is satisfied by them
+    for (const [key, prop] of Object.entries(properties)) {
+      if (value[key] === undefined && isSchema(prop) && 'default' in prop) value[key] = clone(prop.default);
+    }
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (value[key] === undefined) {
+          issues.push({ path: `${path}/${escapePointer(key)}`, keyword: 'required', message: 'is required' });
+        }
+      }
+    }
+
+    for (const [key, propValue] of Object.entries(value)) {
+      const propPath = `${path}/${escapePointer(key)}`;
+      const prop = properties[key];
+      if (isSchema(prop)) {
+        value[key] = check(prop, propValue, propPath, issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: propPath, keyword: 'additionalProperties', message: 'is not allowed' });
+      } else if (isSchema(schema.additionalProperties)) {
+        value[key] = check(schema.additionalProperties, propValue, propPath, issues);
+      }
+    }
+  }
+
+  return value;
+}
+
+function collectIssues(schema: Schema, value: unknown, path: string): ToolArgsIssue[] {
+  const issues: ToolArgsIssue[] = [];
+  check(schema, clone(value), path, issues);
+  return issues;
+}
@@ -0,0 +1,15 @@
+import type { Id, MessagePageOptions } from '../types';
+
+/**
+ * One page of an oldest-first message list - for clients that hold the whole
+ * history and page it locally. An unknown `before` yields an empty page.
+ */
+export function pageMessages<T extends { id: Id }>(messages: T[], options?: MessagePageOptions): T[] {
+  let end = messages.length;
+  if (options?.before) {
+    end = messages.findIndex(m => m.id === options.before);
+    if (end < 0) return [];
+  }
+  const start = options?.limit ? Math.max(0, end - options.limit) : 0;
+  return messages.slice(start, end);
+}
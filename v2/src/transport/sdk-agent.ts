@@ -6,13 +6,21 @@
  */
 import { HttpAgent } from '@ag-ui/client';
 import type { Message, RunAgentInput } from '@ag-ui/core';
-import type { AgUiClient, Id, ConversationDoc, MessageDoc } from '../types';
+import type { AgUiClient, Id, ConversationDoc, MessageDoc, MessagePageOptions, ToolCallOutput, ToolResultOptions } from '../types';
+
+// A run in flight, for cancellation and cleanup
+interface ActiveRun {
+  subscription: { unsubscribe(): void };
+  threadId: Id;
+  messageIds: Set<string>; // Assistant messages streamed by this run
+}
 
 export interface SdkAgentOptions {
   baseUrl: string;
   headers?: Record<string, string>;
   agentEndpoint?: string; // Defaults to '/agent/run'
   conversationsEndpoint?: string; // For conversation CRUD
+  historyCacheSize?: number; // Threads whose history is kept in memory (LRU, default 20)
 }
 
 /**
@@ -26,8 +34,12 @@ export class SdkAgClient implements AgUiClient {
   private listeners = new Map<string, Set<Function>>();
 
   // Client-side state management
-  private threadId: string | null = null;
-  private conversationHistory: Message[] = [];
+  private threadId: string | null = null; // Default thread for sendMessage(null, ...)
+
+  // Per-thread history sent as RunAgentInput.messages (threadId -> messages),
+  // least recently used first
+  private histories = new Map<Id, Message[]>();
+  private historyCacheSize: number;
 
   // Streaming content accumulation (messageId -> accumulated content)
   private streamingContent = new Map<string, string>();
@@ -38,13 +50,14 @@ export class SdkAgClient implements AgUiClient {
   // Tool call arguments accumulation (toolCallId -> {id, name, args})
   private toolCallsInProgress = new Map<string, { id: string; name: string; args: string; messageId: string }>();
 
-  // Active subscriptions for cancellation (messageId -> subscription)
-  private activeSubscriptions = new Map<string, any>();
+  // Runs in flight - several threads may run concurrently (subscriptionKey -> run)
+  private activeRuns = new Map<string, ActiveRun>();
 
   constructor(options: SdkAgentOptions) {
     this.baseUrl = options.baseUrl;
     this.headers = options.headers || {};
     this.conversationsEndpoint = options.conversationsEndpoint || '/conversations';
+    this.historyCacheSize = options.historyCacheSize ?? 20;
 
     // Create SDK HttpAgent
     this.agent = new HttpAgent({
@@ -113,7 +126,7 @@ export class SdkAgClient implements AgUiClient {
 
     // Set as active thread
     this.threadId = conv.id;
-    this.conversationHistory = [];
+    this.setHistory(conv.id, []);
 
     // Emit event for store
     this.emit('conversation.created', { conversation: conv });
@@ -186,6 +199,65 @@ export class SdkAgClient implements AgUiClient {
     this.emit('conversation.archived', { conversationId: id });
   }
 
+  // ============================================================================
+  // Thread History (LRU)
+  // ============================================================================
+
+  private setHistory(threadId: Id, messages: Message[]): Message[] {
+    this.histories.delete(threadId);
+    this.histories.set(threadId, messages);
+    while (this.histories.size > this.historyCacheSize) {
+      const oldest = this.histories.keys().next().value as Id;
+      this.histories.delete(oldest);
+    }
+    return messages;
+  }
+
+  /**
+   * A long conversation may only be loaded in part by the store. Put the
+   * older messages this thread has seen back in front of the branch it sends,
+   * so the agent keeps its full context.
+   */
+  private withOlderHistory(threadId: Id, messages: Message[]): Message[] {
+    const known = this.histories.get(threadId);
+    const start = known && messages.length > 0 ? known.findIndex(m => m.id === messages[0].id) : -1;
+    return start > 0 ? [...known!.slice(0, start), ...messages] : messages;
+  }
+
+  /**
+   * Fold a loaded page into the thread's history - a newer page keeps the
+   * older messages already known, an older one goes in front of them
+   */
+  private addHistoryPage(threadId: Id, messages: Message[], before?: Id) {
+    if (!before) {
+      this.setHistory(threadId, this.withOlderHistory(threadId, messages));
+      return;
+    }
+    const known = this.histories.get(threadId);
+    if (known?.[0]?.id === before) this.setHistory(threadId, [...messages, ...known]);
+  }
+
+  /**
+   * History for a thread, fetched from the server if it is not cached
+   */
+  private async loadHistory(threadId: Id): Promise<Message[]> {
+    const cached = this.histories.get(threadId);
+    if (cached) {
+      // Mark as most recently used
+      this.histories.delete(threadId);
+      this.histories.set(threadId, cached);
+      return cached;
+    }
+
+    try {
+      await this.getMessages(threadId); // Seeds the cache
+    } catch (error) {
+      console.warn(`Failed to load history for ${threadId}, starting empty:`, error);
+      return this.setHistory(threadId, []);
+    }
+    return this.histories.get(threadId) ?? this.setHistory(threadId, []);
+  }
+
   // ============================================================================
   // Message Handling (SDK Agent Pattern)
   // ============================================================================
@@ -197,6 +269,10 @@ export class SdkAgClient implements AgUiClient {
       attachments?: Id[];
       metadata?: Record<string, unknown>;
       tools?: import('@ag-ui/core').Tool[]; // V2: Tools for bidirectional execution
+      state?: import('@ag-ui/core').State; // Shared agent state for this run
+      parentId?: Id | null;
+      history?: MessageDoc[]; // Selected branch - replaces the accumulated history
+      clientMessageId?: Id;
       onEvent?: (event: { type: string; data: any }) => void;
     }
   ): Promise<MessageDoc> {
@@ -215,15 +291,20 @@ export class SdkAgClient implements AgUiClient {
       content: text,
     };
 
-    // Add to history
-    this.conversationHistory.push(userMessage);
+    // Add to the target thread's history only
+    const history = options?.history
+      ? this.setHistory(threadId, this.withOlderHistory(threadId, options.history.map(toAgMessage)))
+      : await this.loadHistory(threadId);
+    history.push(userMessage);
 
     // Emit user message created
     const userMessageDoc: MessageDoc = {
       ...userMessage,
       conversationId: threadId,
+      ...(options?.clientMessageId ? { clientMessageId: options.clientMessageId } : {}),
       status: 'completed',
       createdAt: new Date().toISOString(),
+      ...(options?.parentId !== undefined ? { parentId: options.parentId } : {}),
     };
     this.emit('message.created', { message: userMessageDoc });
 
@@ -231,141 +312,202 @@ export class SdkAgClient implements AgUiClient {
     const input: RunAgentInput = {
       threadId,
       runId: `run_${crypto.randomUUID()}`,
-      state: {},
-      messages: [...this.conversationHistory],
+      state: options?.state ?? {},
+      messages: [...history],
       tools: options?.tools || [], // V2: Pass tools from options
       context: [],
       forwardedProps: options?.metadata || {},
     };
 
     try {
-      let assistantMessageId: string | null = null;
-
-      // Run agent and subscribe to events
-      const subscription = this.agent.run(input).subscribe({
-        next: (event: any) => {
-          // Accumulate streaming content for conversation history
-          if (event.type === 'TEXT_MESSAGE_START') {
-            assistantMessageId = event.messageId;
-            this.streamingContent.set(event.messageId, '');
-            this.streamingToolCalls.set(event.messageId, []);
-          }
+      // A failed run leaves the user message unanswered - it is marked 'failed' and can be retried
+      this.runAgent(input, history, userMessage.id, options?.onEvent, (error) => {
+        this.emit('message.errored', {
+          messageId: userMessage.id,
+          error: { code: 'AGENT_ERROR', message: error.message },
+        });
+      });
 
-          if (event.type === 'TEXT_MESSAGE_CONTENT') {
-            const current = this.streamingContent.get(event.messageId) || '';
-            this.streamingContent.set(event.messageId, current + (event.delta || ''));
-          }
+      return {} as MessageDoc; // Actual message comes from events
+    } catch (error: any) {
+      this.emit('message.errored', {
+        messageId: userMessage.id,
+        error: { code: 'AGENT_ERROR', message: error.message },
+      });
+      throw error;
+    }
+  }
 
-          // Accumulate tool calls for conversation history
-          if (event.type === 'TOOL_CALL_START') {
-            this.toolCallsInProgress.set(event.toolCallId, {
-              id: event.toolCallId,
-              name: event.toolName,
-              args: '',
-              messageId: event.messageId,
-            });
-          }
+  /**
+   * Re-run the agent on a branch without adding a user message.
+   * The reply streams back as usual and becomes a sibling of the previous one.
+   */
+  async regenerate(
+    conversationId: Id,
+    options: {
+      parentId: Id;
+      history: MessageDoc[];
+      tools?: import('@ag-ui/core').Tool[];
+      metadata?: Record<string, unknown>;
+      state?: import('@ag-ui/core').State;
+      onEvent?: (event: { type: string; data: any }) => void;
+    }
+  ): Promise<void> {
+    const history = this.setHistory(conversationId, this.withOlderHistory(conversationId, options.history.map(toAgMessage)));
 
-          if (event.type === 'TOOL_CALL_ARGS') {
-            const tc = this.toolCallsInProgress.get(event.toolCallId);
-            if (tc) {
-              tc.args += event.delta || '';
-            }
-          }
+    const input: RunAgentInput = {
+      threadId: conversationId,
+      runId: `run_${crypto.randomUUID()}`,
+      state: options.state ?? {},
+      messages: [...history],
+      tools: options.tools || [],
+      context: [],
+      forwardedProps: options.metadata || {},
+    };
 
-          if (event.type === 'TOOL_CALL_END') {
-            const tc = this.toolCallsInProgress.get(event.toolCallId);
-            if (tc) {
-              const toolCalls = this.streamingToolCalls.get(tc.messageId) || [];
-              toolCalls.push({
-                id: tc.id,
-                type: 'function',
-                function: {
-                  name: tc.name,
-                  arguments: tc.args,
-                },
-              });
-              this.streamingToolCalls.set(tc.messageId, toolCalls);
-              this.toolCallsInProgress.delete(event.toolCallId);
-            }
-          }
+    this.runAgent(input, history, options.parentId, options.onEvent, (error) => {
+      this.emit('message.errored', {
+        messageId: options.parentId,
+        error: { code: 'AGENT_ERROR', message: error.message },
+      });
+    });
+  }
 
-          if (event.type === 'TEXT_MESSAGE_END') {
-            // Push complete assistant message with full content and tool calls to history
-            const assistantMessage: Message = {
-              id: event.messageId,
-              role: 'assistant',
-              content: this.streamingContent.get(event.messageId) || '',
-            };
-
-            // Add tool calls if any
-            const toolCalls = this.streamingToolCalls.get(event.messageId);
-            if (toolCalls && toolCalls.length > 0) {
-              assistantMessage.toolCalls = toolCalls;
-            }
-
-            this.conversationHistory.push(assistantMessage);
-
-            // Cleanup streaming state
-            this.streamingContent.delete(event.messageId);
-            this.streamingToolCalls.delete(event.messageId);
-          }
+  /**
+   * Run the agent and re-emit its events, accumulating the assistant's reply
+   * into the thread's history. Every event is tagged with its threadId and
+   * runId so the store can route it to the right conversation. The run is
+   * tracked under subscriptionKey for cancelMessage.
+   */
+  private runAgent(
+    input: RunAgentInput,
+    history: Message[], // Kept even if the thread is evicted mid-run
+    subscriptionKey: string,
+    onEvent: ((event: { type: string; data: any }) => void) | undefined,
+    onError: (error: Error) => void
+  ): void {
+    const run: ActiveRun = { subscription: { unsubscribe() {} }, threadId: input.threadId, messageIds: new Set() };
+    let runId = input.runId;
+
+    // Run agent and subscribe to events
+    run.subscription = this.agent.run(input).subscribe({
+      next: (raw: any) => {
+        if (raw.type === 'RUN_STARTED' && raw.runId) runId = raw.runId;
+        const event = { ...raw, threadId: raw.threadId ?? input.threadId, runId: raw.runId ?? runId };
+
+        // Accumulate streaming content for conversation history
+        if (event.type === 'TEXT_MESSAGE_START') {
+          run.messageIds.add(event.messageId);
+          this.streamingContent.set(event.messageId, '');
+          this.streamingToolCalls.set(event.messageId, []);
+        }
+
+        if (event.type === 'TEXT_MESSAGE_CONTENT') {
+          const current = this.streamingContent.get(event.messageId) || '';
+          this.streamingContent.set(event.messageId, current + (event.delta || ''));
+        }
+
+        // Accumulate tool calls for conversation history
+        if (event.type === 'TOOL_CALL_START') {
+          this.toolCallsInProgress.set(event.toolCallId, {
+            id: event.toolCallId,
+            name: event.toolCallName ?? event.toolName,
+            args: '',
+            messageId: event.parentMessageId ?? event.messageId,
+          });
+        }
 
-          // Forward to external handler
-          options?.onEvent?.({ type: event.type, data: event });
+        if (event.type === 'TOOL_CALL_ARGS') {
+          const tc = this.toolCallsInProgress.get(event.toolCallId);
+          if (tc) {
+            tc.args += event.delta || '';
+          }
+        }
+
+        if (event.type === 'TOOL_CALL_END') {
+          const tc = this.toolCallsInProgress.get(event.toolCallId);
+          if (tc) {
+            const toolCalls = this.streamingToolCalls.get(tc.messageId) || [];
+            toolCalls.push({
+              id: tc.id,
+              type: 'function',
+              function: {
+                name: tc.name,
+                arguments: tc.args,
+              },
+            });
+            this.streamingToolCalls.set(tc.messageId, toolCalls);
+            this.toolCallsInProgress.delete(event.toolCallId);
+          }
+        }
+
+        if (event.type === 'TEXT_MESSAGE_END') {
+          // Push complete assistant message with full content and tool calls to history
+          const assistantMessage: Message = {
+            id: event.messageId,
+            role: 'assistant',
+            content: this.streamingContent.get(event.messageId) || '',
+          };
+
+          // Add tool calls if any
+          const toolCalls = this.streamingToolCalls.get(event.messageId);
+          if (toolCalls && toolCalls.length > 0) {
+            assistantMessage.toolCalls = toolCalls;
+          }
 
-          // Emit to internal listeners for store
-          this.emit(event.type, event);
-        },
-        error: (error: Error) => {
-          console.error('Agent error:', error);
+          history.push(assistantMessage);
 
-          // Cleanup on error
-          if (assistantMessageId) {
-            this.streamingContent.delete(assistantMessageId);
-            this.streamingToolCalls.delete(assistantMessageId);
-            this.activeSubscriptions.delete(userMessage.id);
-          }
+          // Cleanup streaming state
+          this.streamingContent.delete(event.messageId);
+          this.streamingToolCalls.delete(event.messageId);
+        }
 
-          // Cleanup any incomplete tool calls
-          this.toolCallsInProgress.forEach((tc, tcId) => {
-            if (tc.messageId === assistantMessageId) {
-              this.toolCallsInProgress.delete(tcId);
-            }
-          });
+        // Forward to external handler
+        onEvent?.({ type: event.type, data: event });
 
-          this.emit('message.errored', {
-            messageId: userMessage.id,
-            error: error.message
-          });
-        },
-        complete: () => {
-          // Cleanup on completion
-          if (assistantMessageId) {
-            this.streamingContent.delete(assistantMessageId);
-            this.streamingToolCalls.delete(assistantMessageId);
-          }
-          this.activeSubscriptions.delete(userMessage.id);
-          console.log('Agent run completed');
-        },
-      });
+        // Emit to internal listeners for store
+        this.emit(event.type, event);
+      },
+      error: (error: Error) => {
+        console.error('Agent error:', error);
+        this.cleanupRun(run);
+        this.activeRuns.delete(subscriptionKey);
+        onError(error);
+      },
+      complete: () => {
+        this.cleanupRun(run);
+        this.activeRuns.delete(subscriptionKey);
+      },
+    });
 
-      // Track subscription for cancellation
-      this.activeSubscriptions.set(userMessage.id, subscription);
+    // Track run for cancellation
+    this.activeRuns.set(subscriptionKey, run);
+  }
 
-      return {} as MessageDoc; // Actual message comes from events
-    } catch (error: any) {
-      this.emit('message.errored', {
-        messageId: userMessage.id,
-        error: error.message
-      });
-      throw error;
+  // Drop accumulation state belonging to one run, leaving concurrent runs alone
+  private cleanupRun(run: ActiveRun) {
+    for (const messageId of run.messageIds) {
+      this.streamingContent.delete(messageId);
+      this.streamingToolCalls.delete(messageId);
     }
+    this.toolCallsInProgress.forEach((tc, tcId) => {
+      if (run.messageIds.has(tc.messageId)) {
+        this.toolCallsInProgress.delete(tcId);
+      }
+    });
   }
 
-  async getMessages(conversationId: Id): Promise<MessageDoc[]> {
+  /**
+   * Messages of a conversation, or one page of them (`?before=&limit=`).
+   * What is loaded also seeds the thread's history for runs.
+   */
+  async getMessages(conversationId: Id, options?: MessagePageOptions): Promise<MessageDoc[]> {
     const endpoint = `${this.conversationsEndpoint}/${conversationId}/messages`;
-    const res = await fetch(`${this.baseUrl}${endpoint}`, {
+    const query = new URLSearchParams();
+    if (options?.before) query.set('before', options.before);
+    if (options?.limit) query.set('limit', String(options.limit));
+    const search = query.toString() ? `?${query}` : '';
+    const res = await fetch(`${this.baseUrl}${endpoint}${search}`, {
       headers: this.headers,
       credentials: 'include',
     });
@@ -376,24 +518,50 @@ export class SdkAgClient implements AgUiClient {
     }
 
     const data = await res.json();
-    return data.messages || [];
+    const messages: MessageDoc[] = data.messages || [];
+
+    // Seed the thread's history so the next run has the loaded context
+    this.addHistoryPage(
+      conversationId,
+      messages.filter(m => m.status !== 'streaming').map(toAgMessage),
+      options?.before
+    );
+
+    return messages;
   }
 
-  async cancelMessage(conversationId: Id, messageId: Id): Promise<void> {
-    // 1. Abort active subscription
-    const subscription = this.activeSubscriptions.get(messageId);
-    if (subscription) {
-      subscription.unsubscribe();
-      this.activeSubscriptions.delete(messageId);
+  async getAgentState(conversationId: Id): Promise<unknown> {
+    const endpoint = `${this.conversationsEndpoint}/${conversationId}/state`;
+    const res = await fetch(`${this.baseUrl}${endpoint}`, {
+      headers: this.headers,
+      credentials: 'include',
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text().catch(() => '');
+      throw new Error(`Failed to get agent state: ${res.status} ${errorText}`);
     }
 
-    // 2. Cleanup streaming state for any messages being accumulated
-    this.streamingContent.clear();
-    this.streamingToolCalls.clear();
-    this.toolCallsInProgress.clear();
+    return res.json();
+  }
+
+  async cancelMessage(conversationId: Id, messageId: Id): Promise<void> {
+    // 1. Find the run: by the message that started it, a message it is
+    //    streaming, or failing that the conversation's run
+    const runs = [...this.activeRuns];
+    const entry = runs.find(([key, run]) => key === messageId || run.messageIds.has(messageId))
+      ?? runs.find(([, run]) => run.threadId === conversationId);
+
+    // 2. Abort it and clean up only its streaming state
+    if (entry) {
+      const [key, run] = entry;
+      run.subscription.unsubscribe();
+      this.cleanupRun(run);
+      this.activeRuns.delete(key);
+    }
 
     // 3. Emit canceled event
-    this.emit('message.canceled', { messageId });
+    this.emit('message.canceled', { messageId, threadId: conversationId });
   }
 
   /**
@@ -409,150 +577,70 @@ export class SdkAgClient implements AgUiClient {
     conversationId: Id,
     toolCallId: string,
     result: string,
-    options?: {
-      tools?: import('@ag-ui/core').Tool[];
-      metadata?: Record<string, unknown>;
-      onEvent?: (event: { type: string; data: any }) => void;
-    }
+    options?: ToolResultOptions
   ): Promise<void> {
+    return this.sendToolResults(conversationId, [{ toolCallId, result }], options);
+  }
+
+  /**
+   * V2: Send the results of all tool calls of an assistant message at once.
+   * Every result is appended to the history as a tool message and the agent
+   * is resumed exactly once.
+   */
+  async sendToolResults(
+    conversationId: Id,
+    results: ToolCallOutput[],
+    options?: ToolResultOptions
+  ): Promise<void> {
+    if (results.length === 0) return;
     const threadId = conversationId || this.threadId!;
 
-    // Create tool result message
-    const toolMessage: Message = {
+    // Create tool result messages
+    const toolMessages: Message[] = results.map(({ toolCallId, result }) => ({
       id: `msg_${crypto.randomUUID()}`,
       role: 'tool',
       content: result,
       toolCallId,
-    };
-
-    // Add to conversation history
-    this.conversationHistory.push(toolMessage);
-
-    // Emit tool result message created
-    const toolMessageDoc: MessageDoc = {
-      ...toolMessage,
-      conversationId: threadId,
-      status: 'completed',
-      createdAt: new Date().toISOString(),
-    };
-    this.emit('message.created', { message: toolMessageDoc });
+    }));
+    const lastMessageId = toolMessages[toolMessages.length - 1].id;
+
+    // Add to the thread's history
+    const history = await this.loadHistory(threadId);
+    history.push(...toolMessages);
+
+    // Emit tool result messages created
+    for (const toolMessage of toolMessages) {
+      const toolMessageDoc: MessageDoc = {
+        ...toolMessage,
+        conversationId: threadId,
+        status: 'completed',
+        createdAt: new Date().toISOString(),
+      };
+      this.emit('message.created', { message: toolMessageDoc });
+    }
 
-    // Resume agent execution with tool result in context
-    // Prepare RunAgentInput with full history including tool result
+    // Resume agent execution with tool results in context
+    // Prepare RunAgentInput with full history including tool results
     const input: RunAgentInput = {
       threadId,
       runId: `run_${crypto.randomUUID()}`,
-      state: {},
-      messages: [...this.conversationHistory],
+      state: options?.state ?? {},
+      messages: [...history],
       tools: options?.tools || [],
       context: [],
       forwardedProps: options?.metadata || {},
     };
 
     try {
-      let assistantMessageId: string | null = null;
-
-      // Run agent and subscribe to events
-      const subscription = this.agent.run(input).subscribe({
-        next: (event: any) => {
-          // Accumulate streaming content for conversation history
-          if (event.type === 'TEXT_MESSAGE_START') {
-            assistantMessageId = event.messageId;
-            this.streamingContent.set(event.messageId, '');
-            this.streamingToolCalls.set(event.messageId, []);
-          }
-
-          if (event.type === 'TEXT_MESSAGE_CONTENT') {
-            const current = this.streamingContent.get(event.messageId) || '';
-            this.streamingContent.set(event.messageId, current + (event.delta || ''));
-          }
-
-          // Accumulate tool calls
-          if (event.type === 'TOOL_CALL_START') {
-            this.toolCallsInProgress.set(event.toolCallId, {
-              id: event.toolCallId,
-              name: event.toolName,
-              args: '',
-              messageId: event.messageId,
-            });
-          }
-
-          if (event.type === 'TOOL_CALL_ARGS') {
-            const tc = this.toolCallsInProgress.get(event.toolCallId);
-            if (tc) {
-              tc.args += event.delta || '';
-            }
-          }
-
-          if (event.type === 'TOOL_CALL_END') {
-            const tc = this.toolCallsInProgress.get(event.toolCallId);
-            if (tc) {
-              const toolCalls = this.streamingToolCalls.get(tc.messageId) || [];
-              toolCalls.push({
-                id: tc.id,
-                type: 'function',
-                function: {
-                  name: tc.name,
-                  arguments: tc.args,
-                },
-              });
-              this.streamingToolCalls.set(tc.messageId, toolCalls);
-              this.toolCallsInProgress.delete(event.toolCallId);
-            }
-          }
-
-          if (event.type === 'TEXT_MESSAGE_END') {
-            // Push complete assistant message to history
-            const assistantMessage: Message = {
-              id: event.messageId,
-              role: 'assistant',
-              content: this.streamingContent.get(event.messageId) || '',
-            };
-
-            const toolCalls = this.streamingToolCalls.get(event.messageId);
-            if (toolCalls && toolCalls.length > 0) {
-              assistantMessage.toolCalls = toolCalls;
-            }
-
-            this.conversationHistory.push(assistantMessage);
-
-            this.streamingContent.delete(event.messageId);
-            this.streamingToolCalls.delete(event.messageId);
-          }
-
-          // Forward events
-          options?.onEvent?.({ type: event.type, data: event });
-          this.emit(event.type, event);
-        },
-        error: (error: Error) => {
-          console.error('Agent error after tool result:', error);
-
-          if (assistantMessageId) {
-            this.streamingContent.delete(assistantMessageId);
-            this.streamingToolCalls.delete(assistantMessageId);
-            this.activeSubscriptions.delete(toolMessage.id);
-          }
-
-          for (const [id, tc] of this.toolCallsInProgress.entries()) {
-            if (tc.messageId === assistantMessageId) {
-              this.toolCallsInProgress.delete(id);
-            }
-          }
-
-          this.emit('message.errored', {
-            messageId: toolMessage.id,
-            error: { code: 'AGENT_ERROR', message: error.message },
-          });
-        },
-        complete: () => {
-          this.activeSubscriptions.delete(toolMessage.id);
-        },
+      this.runAgent(input, history, lastMessageId, options?.onEvent, (error) => {
+        this.emit('message.errored', {
+          messageId: lastMessageId,
+          error: { code: 'AGENT_ERROR', message: error.message },
+        });
       });
-
-      this.activeSubscriptions.set(toolMessage.id, subscription);
     } catch (error: any) {
       this.emit('message.errored', {
-        messageId: toolMessage.id,
+        messageId: lastMessageId,
         error: { code: 'TOOL_RESULT_ERROR', message: error.message },
       });
       throw error;
@@ -561,8 +649,8 @@ export class SdkAgClient implements AgUiClient {
 
   close(): void {
     // Unsubscribe from all active subscriptions
-    this.activeSubscriptions.forEach(sub => sub.unsubscribe());
-    this.activeSubscriptions.clear();
+    this.activeRuns.forEach(run => run.subscription.unsubscribe());
+    this.activeRuns.clear();
 
     // Clear streaming state
     this.streamingContent.clear();
@@ -571,11 +659,21 @@ export class SdkAgClient implements AgUiClient {
 
     // Clear other state
     this.listeners.clear();
-    this.conversationHistory = [];
+    this.histories.clear();
     this.threadId = null;
   }
 }
 
+// Strip store-side fields (status, tree links, ...) before sending history to the agent
+function toAgMessage(m: MessageDoc): Message {
+  const { id, role, content, toolCalls, toolCallId, name } = m as any;
+  const msg: any = { id, role, content };
+  if (toolCalls && toolCalls.length > 0) msg.toolCalls = toolCalls;
+  if (toolCallId) msg.toolCallId = toolCallId;
+  if (name) msg.name = name;
+  return msg as Message;
+}
+
 /**
  * Factory function for creating SDK agent
  */
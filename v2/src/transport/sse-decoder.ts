@@ -0,0 +1,212 @@
+// =============================================================================
+// SSE Decoder
+// Streaming text/event-stream decoder following the WHATWG HTML spec
+// (https://html.spec.whatwg.org/multipage/server-sent-events.html)
+// =============================================================================
+
+/**
+ * A dispatched server-sent event
+ */
+export interface SseEvent {
+  type: string; // `event:` field, defaults to 'message'
+  data: string; // `data:` lines joined with '\n'
+  lastEventId: string; // Last `id:` seen on the stream (persists across events)
+}
+
+export interface SseDecoderOptions {
+  // Called for `:` comment lines (commonly used as heartbeats)
+  onComment?: (text: string) => void;
+  // Called when the server sends a valid `retry:` field
+  onRetry?: (ms: number) => void;
+}
+
+/**
+ * Incremental event-stream decoder.
+ *
+ * Feed it raw bytes (or already-decoded text) as they arrive; it buffers
+ * partial lines and split UTF-8 sequences across chunk boundaries and returns
+ * each event once its terminating blank line has been seen.
+ *
+ * @example
+ * ```ts
+ * const decoder = new SseDecoder();
+ * for (const event of decoder.push(chunk)) {
+ *   handle(event.type, JSON.parse(event.data));
+ * }
+ * decoder.end(); // Discards any incomplete trailing event
+ * ```
+ */
+export class SseDecoder {
+  private textDecoder = new TextDecoder('utf-8');
+  private buffer = '';
+  private pendingCR = false; // Last chunk ended with '\r'; a leading '\n' belongs to it
+  private seenFirstChunk = false;
+
+  // Per-event buffers
+  private eventType = '';
+  private data = '';
+  private hasData = false;
+
+  private _lastEventId = '';
+  private _retry: number | undefined;
+
+  constructor(private options: SseDecoderOptions = {}) {}
+
+  /**
+   * Last event ID (from the most recent `id:` field), for `Last-Event-ID`
+   */
+  get lastEventId(): string {
+    return this._lastEventId;
+  }
+
+  /**
+   * Reconnection time requested by the server, if any
+   */
+  get retry(): number | undefined {
+    return this._retry;
+  }
+
+  /**
+   * Decode a chunk and return the events it completed
+   */
+  push(chunk: Uint8Array | string): SseEvent[] {
+    let text = typeof chunk === 'string' ? chunk : this.textDecoder.decode(chunk, { stream: true });
+
+    // Strip a leading byte order mark
+    if (!this.seenFirstChunk && text.length > 0) {
+      this.seenFirstChunk = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+
+    if (this.pendingCR && text.length > 0) {
+      if (text.startsWith('\n')) text = text.slice(1);
+      this.pendingCR = false;
+    }
+
+    this.buffer += text;
+    return this.drainLines();
+  }
+
+  /**
+   * Flush the decoder at end of stream.
+   * Per spec, an event without its terminating blank line is discarded.
+   */
+  end(): SseEvent[] {
+    this.buffer += this.textDecoder.decode();
+    const events = this.drainLines();
+    this.buffer = '';
+    this.resetEvent();
+    return events;
+  }
+
+  private drainLines(): SseEvent[] {
+    const events: SseEvent[] = [];
+    let start = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (ch !== '\n' && ch !== '\r') continue;
+
+      const line = this.buffer.slice(start, i);
+
+      if (ch === '\r') {
+        if (i + 1 === this.buffer.length) {
+          // CR at the end of the buffer: the LF of a CRLF may arrive next chunk
+          this.pendingCR = true;
+        } else if (this.buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+
+      start = i + 1;
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return events;
+  }
+
+  private processLine(line: string): SseEvent | undefined {
+    if (line === '') return this.dispatch();
+
+    if (line.startsWith(':')) {
+      this.options.onComment?.(line.slice(1).replace(/^ /, ''));
+      return undefined;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data += value + '\n';
+        this.hasData = true;
+        break;
+      case 'id':
+        if (!value.includes('\0')) this._lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this._retry = Number(value);
+          this.options.onRetry?.(this._retry);
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+    return undefined;
+  }
+
+  private dispatch(): SseEvent | undefined {
+    if (!this.hasData) {
+      this.resetEvent();
+      return undefined;
+    }
+
+    const event: SseEvent = {
+      type: this.eventType || 'message',
+      data: this.data.endsWith('\n') ? this.data.slice(0, -1) : this.data,
+      lastEventId: this._lastEventId,
+    };
+    this.resetEvent();
+    return event;
+  }
+
+  private resetEvent() {
+    this.eventType = '';
+    this.data = '';
+    this.hasData = false;
+  }
+}
+
+/**
+ * Read a response body to completion, yielding decoded events
+ */
+export async function* readSseEvents(
+  body: ReadableStream<Uint8Array>,
+  decoder: SseDecoder = new SseDecoder()
+): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        yield* decoder.end();
+        return;
+      }
+      yield* decoder.push(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export default SseDecoder;
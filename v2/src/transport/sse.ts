@@ -1,10 +1,13 @@
 import type {
   AgUiClient,
   AllEventType,
+  ChangeSet,
   Id,
   ConversationDoc,
   MessageDoc,
+  MessagePageOptions,
 } from '../types';
+import { SseDecoder, readSseEvents } from './sse-decoder';
 
 type Handler<E extends AllEventType> = (payload: any) => void;
 
@@ -15,9 +18,34 @@ export interface SseAgClientOptions {
     conversations: string;
     messages: string;
     autoCreate: string;
+    changes: string; // Incremental sync - GET with ?since=<revision>
   }>;
+  reconnect?: SseReconnectOptions;
 }
 
+export interface SseReconnectOptions {
+  maxRetries?: number; // Default: 5 (0 disables reconnection)
+  initialDelayMs?: number; // Default: 1000, overridden by the server's `retry:` field
+  maxDelayMs?: number; // Default: 30000
+}
+
+// Per-stream resume state, updated as `id:` and `retry:` fields arrive
+interface SseStreamState {
+  lastEventId?: string;
+  retryMs?: number;
+  messageId?: Id; // Last message seen on the stream, reported on final failure
+  threadId?: Id; // Conversation the stream belongs to (learned from the stream when auto-created)
+  runId?: string;
+  finished?: boolean; // A terminal event arrived - the stream may end
+}
+
+// Events that end a run. Without RUN_STARTED (legacy servers) the message events end it.
+const RUN_TERMINAL_EVENTS = new Set(['RUN_FINISHED', 'RUN_ERROR']);
+const MESSAGE_TERMINAL_EVENTS = new Set(['message.completed', 'message.errored', 'message.canceled']);
+
+// Thrown for responses that are worth retrying (5xx, 429)
+class RetryableStreamError extends Error {}
+
 export class SseAgClient implements AgUiClient {
   private baseUrl: string;
   private headers: Record<string, string>;
@@ -25,7 +53,9 @@ export class SseAgClient implements AgUiClient {
     conversations: string;
     messages: string;
     autoCreate: string;
+    changes: string;
   };
+  private reconnect: Required<SseReconnectOptions>;
   private listeners = new Map<string, Set<Function>>();
   private activeStreams = new Map<string, AbortController>();
 
@@ -36,6 +66,12 @@ export class SseAgClient implements AgUiClient {
       conversations: options.paths?.conversations || '/conversations',
       messages: options.paths?.messages || '/conversations/:id/messages',
       autoCreate: options.paths?.autoCreate || '/messages',
+      changes: options.paths?.changes || '/changes',
+    };
+    this.reconnect = {
+      maxRetries: options.reconnect?.maxRetries ?? 5,
+      initialDelayMs: options.reconnect?.initialDelayMs ?? 1000,
+      maxDelayMs: options.reconnect?.maxDelayMs ?? 30000,
     };
   }
 
@@ -157,55 +193,95 @@ export class SseAgClient implements AgUiClient {
     this.emit('conversation.archived', { conversationId: id } as any);
   }
 
-  // Message Streaming (per-message SSE)
+  // Message Streaming (per-message SSE, resumable via Last-Event-ID)
   async sendMessage(
     conversationId: Id | null,
     text: string,
     options?: {
       attachments?: Id[];
       metadata?: Record<string, unknown>;
+      state?: unknown;
+      parentId?: Id | null;
+      clientMessageId?: Id;
       onEvent?: (event: { type: string; data: any }) => void;
     }
   ): Promise<MessageDoc> {
-    const messageId = crypto.randomUUID();
+    const messageId = options?.clientMessageId ?? crypto.randomUUID();
     const controller = new AbortController();
     this.activeStreams.set(messageId, controller);
 
+    // Determine endpoint
+    const endpoint = conversationId
+      ? this.paths.messages.replace(':id', conversationId)
+      : this.paths.autoCreate;
+
+    const url = `${this.baseUrl}${endpoint}`;
+
+    // The body is replayed verbatim on reconnect; clientMessageId lets the
+    // server recognise the retry and resume the run instead of starting a new one
+    const body = JSON.stringify({
+      clientMessageId: messageId,
+      text,
+      attachments: options?.attachments,
+      metadata: options?.metadata,
+      state: options?.state,
+      parentId: options?.parentId,
+    });
+
+    const stream: SseStreamState = { threadId: conversationId ?? undefined };
+    let attempt = 0;
+
     try {
-      // Determine endpoint
-      const endpoint = conversationId
-        ? this.paths.messages.replace(':id', conversationId)
-        : this.paths.autoCreate;
-
-      const url = `${this.baseUrl}${endpoint}`;
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'text/event-stream',
-          ...this.headers,
-        },
-        body: JSON.stringify({
-          clientMessageId: messageId,
-          text,
-          attachments: options?.attachments,
-          metadata: options?.metadata,
-        }),
-        signal: controller.signal,
-        credentials: 'include',
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unknown error');
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
-      }
+      while (true) {
+        try {
+          const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Accept': 'text/event-stream',
+              ...this.headers,
+              ...(stream.lastEventId ? { 'Last-Event-ID': stream.lastEventId } : {}),
+            },
+            body,
+            signal: controller.signal,
+            credentials: 'include',
+          });
+
+          if (!response.ok) {
+            const errorText = await response.text().catch(() => 'Unknown error');
+            const message = `HTTP ${response.status}: ${errorText}`;
+            if (response.status >= 500 || response.status === 429) {
+              throw new RetryableStreamError(message);
+            }
+            throw new Error(message);
+          }
 
-      // Parse SSE stream
-      await this.parseSSEStream(response, options?.onEvent);
+          await this.parseSSEStream(response, stream, () => { attempt = 0; }, options?.onEvent);
+
+          // A proxy or server may close the connection cleanly mid-answer -
+          // only a terminal event ends the run, otherwise resume it
+          if (!stream.finished) throw new RetryableStreamError('Stream ended before the run finished');
+
+          // Return empty message - actual data is in store via events
+          return {} as MessageDoc;
+        } catch (error: any) {
+          if (error.name === 'AbortError') throw error;
+
+          // Network failures surface as TypeError from fetch/read
+          const retryable = error instanceof RetryableStreamError || error instanceof TypeError;
+          if (!retryable || attempt >= this.reconnect.maxRetries) {
+            if (stream.messageId) {
+              this.emit('message.errored', {
+                messageId: stream.messageId,
+                error: { code: 'STREAM_DISCONNECTED', message: error.message },
+              });
+            }
+            throw error;
+          }
 
-      // Return empty message - actual data is in store via events
-      return {} as MessageDoc;
+          await this.waitBeforeReconnect(attempt++, stream, controller.signal);
+        }
+      }
     } catch (error: any) {
       if (error.name === 'AbortError') {
         throw new Error('Message cancelled');
@@ -216,72 +292,88 @@ export class SseAgClient implements AgUiClient {
     }
   }
 
+  private waitBeforeReconnect(attempt: number, stream: SseStreamState, signal: AbortSignal): Promise<void> {
+    // Exponential backoff from the server-provided retry interval (or our default)
+    const base = stream.retryMs ?? this.reconnect.initialDelayMs;
+    const delay = Math.min(base * 2 ** attempt, this.reconnect.maxDelayMs);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
   private async parseSSEStream(
     response: Response,
+    stream: SseStreamState,
+    onProgress: () => void,
     onEvent?: (event: { type: string; data: any }) => void
   ): Promise<void> {
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-
-        // Split on double newline (SSE standard)
-        const parts = buffer.split('\n\n');
-        buffer = parts.pop() || '';
+    const decoder = new SseDecoder({
+      onRetry: (ms) => { stream.retryMs = ms; },
+    });
 
-        for (const part of parts) {
-          if (!part.trim()) continue;
+    // A new event id is progress - heartbeats, comments and replays of the
+    // resumed event are not, so a server that drops right after them still
+    // runs out of retries
+    const advance = (id: string | undefined) => {
+      if (!id || id === stream.lastEventId) return;
+      stream.lastEventId = id;
+      onProgress();
+    };
 
-          const event = this.parseSSEMessage(part);
-          if (event) {
-            // Emit to internal listeners (store)
-            this.emit(event.type as AllEventType, event.data);
+    for await (const sse of readSseEvents(response.body!, decoder)) {
+      advance(sse.lastEventId);
 
-            // Call optional external handler
-            onEvent?.(event);
-          }
-        }
+      let data: any;
+      try {
+        data = JSON.parse(sse.data);
+      } catch {
+        console.warn('Failed to parse SSE data:', sse.data);
+        continue;
       }
-    } finally {
-      reader.releaseLock();
-    }
-  }
 
-  private parseSSEMessage(message: string): { type: string; data: any } | null {
-    let eventType = 'message';
-    let data = '';
+      if (data?.messageId) stream.messageId = data.messageId;
 
-    const lines = message.split('\n');
-    for (const line of lines) {
-      if (line.startsWith('event:')) {
-        eventType = line.slice(6).trim();
-      } else if (line.startsWith('data:')) {
-        data += line.slice(5).trim();
+      // Tag events with the stream's thread and run so the store can route them
+      if (sse.type === 'conversation.created' && data?.conversation?.id) stream.threadId = data.conversation.id;
+      if (sse.type === 'RUN_STARTED') {
+        stream.threadId = data.threadId ?? stream.threadId;
+        stream.runId = data.runId ?? stream.runId;
+      }
+      if (RUN_TERMINAL_EVENTS.has(sse.type) || (!stream.runId && MESSAGE_TERMINAL_EVENTS.has(sse.type))) {
+        stream.finished = true;
+      }
+      if (data && typeof data === 'object') {
+        if (data.threadId === undefined && stream.threadId) data.threadId = stream.threadId;
+        if (data.runId === undefined && stream.runId) data.runId = stream.runId;
       }
-    }
 
-    if (!data) return null;
+      // Emit to internal listeners (store)
+      this.emit(sse.type as AllEventType, data);
 
-    try {
-      return {
-        type: eventType,
-        data: JSON.parse(data),
-      };
-    } catch {
-      console.warn('Failed to parse SSE data:', data);
-      return null;
+      // Call optional external handler
+      onEvent?.({ type: sse.type, data });
     }
+
+    // An `id:` without data still moves the resume point
+    advance(decoder.lastEventId);
   }
 
-  async getMessages(conversationId: Id): Promise<MessageDoc[]> {
+  async getMessages(conversationId: Id, options?: MessagePageOptions): Promise<MessageDoc[]> {
     const endpoint = this.paths.messages.replace(':id', conversationId);
-    const res = await fetch(`${this.baseUrl}${endpoint}`, {
+    const query = new URLSearchParams();
+    if (options?.before) query.set('before', options.before);
+    if (options?.limit) query.set('limit', String(options.limit));
+    const search = query.toString() ? `?${query}` : '';
+    const res = await fetch(`${this.baseUrl}${endpoint}${search}`, {
       headers: this.headers,
       credentials: 'include',
     });
@@ -294,6 +386,20 @@ export class SseAgClient implements AgUiClient {
     return res.json();
   }
 
+  async listChanges(sinceRevision: string): Promise<ChangeSet> {
+    const res = await fetch(`${this.baseUrl}${this.paths.changes}?since=${encodeURIComponent(sinceRevision)}`, {
+      headers: this.headers,
+      credentials: 'include',
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text().catch(() => '');
+      throw new Error(`Failed to list changes: ${res.status} ${errorText}`);
+    }
+
+    return res.json();
+  }
+
   async cancelMessage(conversationId: Id, messageId: Id): Promise<void> {
     // Abort local stream
     const controller = this.activeStreams.get(messageId);
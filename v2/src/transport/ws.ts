@@ -0,0 +1,466 @@
+/**
+ * WebSocket AG-UI Client
+ *
+ * Multiplexes conversation management, message runs and server-pushed
+ * events for any number of conversations over a single socket.
+ *
+ * Wire protocol (JSON frames):
+ * - `{ type: 'request', id, method, params }`        client -> server
+ * - `{ type: 'response', id, result } | { ..., error }` server -> client
+ * - `{ type: 'event', event, data, conversationId?, revision? }` both directions
+ *
+ * The server is expected to send `client.ready { sessionId }` on every
+ * connect; `resume()` then asks it to replay what was missed.
+ */
+import type {
+  AgUiClient,
+  AllEventType,
+  ChangeSet,
+  Id,
+  ConversationDoc,
+  MessageDoc,
+  MessagePageOptions,
+} from '../types';
+import type { Tool, State } from '@ag-ui/core';
+
+type Handler<E extends AllEventType> = (payload: any) => void;
+
+export interface WsAgClientOptions {
+  url: string; // ws:// or wss:// gateway URL
+  protocols?: string | string[]; // Browsers cannot set headers, use subprotocols for auth
+  requestTimeoutMs?: number; // Default: 30000
+  heartbeatIntervalMs?: number; // Default: 25000 (0 disables heartbeats)
+  heartbeatTimeoutMs?: number; // Default: 10000
+  reconnect?: WsReconnectOptions;
+  WebSocketImpl?: typeof WebSocket; // For non-browser environments
+}
+
+export interface WsReconnectOptions {
+  maxRetries?: number; // Default: Infinity (0 disables reconnection)
+  initialDelayMs?: number; // Default: 1000
+  maxDelayMs?: number; // Default: 30000
+}
+
+type WsFrame =
+  | { type: 'request'; id: string; method: string; params?: unknown }
+  | { type: 'response'; id: string; result?: any; error?: { code: string; message: string; details?: unknown } }
+  | { type: 'event'; event: string; data: any; conversationId?: Id; revision?: string };
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Events that end a run started by sendMessage
+const RUN_TERMINAL_EVENTS = new Set(['RUN_FINISHED', 'RUN_ERROR', 'message.errored', 'message.canceled']);
+
+export class WsAgClient implements AgUiClient {
+  private url: string;
+  private protocols?: string | string[];
+  private requestTimeoutMs: number;
+  private heartbeatIntervalMs: number;
+  private heartbeatTimeoutMs: number;
+  private reconnect: Required<WsReconnectOptions>;
+  private WebSocketImpl: typeof WebSocket;
+
+  private socket: WebSocket | null = null;
+  private listeners = new Map<string, Set<Function>>();
+  private pendingRequests = new Map<string, PendingRequest>();
+  private outbox: { raw: string; requestId?: string }[] = []; // Frames queued while disconnected
+
+  // Session state for client.resume
+  private sessionId: string | null = null;
+  private revision: string | undefined;
+
+  // Per-conversation onEvent callbacks for runs in flight
+  private runHandlers = new Map<Id, (event: { type: string; data: any }) => void>();
+
+  private attempt = 0;
+  private closed = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatDeadline: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: WsAgClientOptions) {
+    this.url = options.url;
+    this.protocols = options.protocols;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 30000;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 25000;
+    this.heartbeatTimeoutMs = options.heartbeatTimeoutMs ?? 10000;
+    this.reconnect = {
+      maxRetries: options.reconnect?.maxRetries ?? Infinity,
+      initialDelayMs: options.reconnect?.initialDelayMs ?? 1000,
+      maxDelayMs: options.reconnect?.maxDelayMs ?? 30000,
+    };
+    this.WebSocketImpl = options.WebSocketImpl || WebSocket;
+
+    this.connect();
+  }
+
+  // ============================================================================
+  // Event Handling (AgUiClient interface)
+  // ============================================================================
+
+  on<E extends AllEventType>(type: E, handler: Handler<E>): () => void {
+    const set = this.listeners.get(type) || new Set();
+    set.add(handler as any);
+    this.listeners.set(type, set);
+    return () => this.off(type, handler);
+  }
+
+  off<E extends AllEventType>(type: E, handler: Handler<E>): void {
+    const set = this.listeners.get(type);
+    set?.delete(handler as any);
+  }
+
+  private emit<E extends AllEventType>(type: E, payload: any) {
+    const set = this.listeners.get(type);
+    if (!set) return;
+    set.forEach((fn) => {
+      try {
+        (fn as any)(payload);
+      } catch (e) {
+        console.error(`Error in handler for ${type}:`, e);
+      }
+    });
+  }
+
+  // ============================================================================
+  // Connection Lifecycle
+  // ============================================================================
+
+  private connect() {
+    const socket = new this.WebSocketImpl(this.url, this.protocols);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempt = 0;
+      this.startHeartbeat();
+
+      const queued = this.outbox;
+      this.outbox = [];
+      queued.forEach(({ raw }) => socket.send(raw));
+    };
+
+    socket.onmessage = (ev: MessageEvent) => {
+      let frame: WsFrame;
+      try {
+        frame = JSON.parse(typeof ev.data === 'string' ? ev.data : String(ev.data));
+      } catch {
+        console.warn('Failed to parse WebSocket frame:', ev.data);
+        return;
+      }
+      this.handleFrame(frame);
+    };
+
+    socket.onclose = (ev: CloseEvent) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.stopHeartbeat();
+      this.rejectPending(new Error(`WebSocket closed: ${ev.code}${ev.reason ? ` ${ev.reason}` : ''}`));
+      this.emit('client.closed', { reason: ev.reason || undefined });
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = () => {
+      // onclose follows and handles reconnection
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.closed || this.attempt >= this.reconnect.maxRetries) return;
+
+    const delay = Math.min(this.reconnect.initialDelayMs * 2 ** this.attempt, this.reconnect.maxDelayMs);
+    this.attempt++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    if (!this.heartbeatIntervalMs) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      this.sendFrame({ type: 'event', event: 'client.heartbeat', data: { ts: new Date().toISOString() } });
+
+      if (!this.heartbeatDeadline) {
+        this.heartbeatDeadline = setTimeout(() => {
+          // No pong in time - drop the socket and let onclose reconnect
+          this.heartbeatDeadline = null;
+          this.socket?.close(4000, 'Heartbeat timeout');
+        }, this.heartbeatTimeoutMs);
+      }
+    }, this.heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    if (this.heartbeatDeadline) clearTimeout(this.heartbeatDeadline);
+    this.heartbeatTimer = null;
+    this.heartbeatDeadline = null;
+  }
+
+  private handleFrame(frame: WsFrame) {
+    if (frame.type === 'response') {
+      const pending = this.pendingRequests.get(frame.id);
+      if (!pending) return;
+      this.pendingRequests.delete(frame.id);
+      clearTimeout(pending.timer);
+      if (frame.error) {
+        pending.reject(new Error(`${frame.error.code}: ${frame.error.message}`));
+      } else {
+        pending.resolve(frame.result);
+      }
+      return;
+    }
+
+    if (frame.type !== 'event') return;
+
+    const { event } = frame;
+    if (frame.revision) this.revision = frame.revision;
+
+    // Frames for a conversation carry its id - tag the payload so the store
+    // can route it even when another conversation is active
+    const data = frame.conversationId && frame.data && typeof frame.data === 'object' && frame.data.threadId === undefined
+      ? { ...frame.data, threadId: frame.conversationId }
+      : frame.data;
+
+    switch (event) {
+      case 'client.heartbeat':
+        // Pong from the server
+        if (this.heartbeatDeadline) clearTimeout(this.heartbeatDeadline);
+        this.heartbeatDeadline = null;
+        break;
+      case 'client.ready':
+        this.sessionId = data?.sessionId ?? this.sessionId;
+        break;
+      case 'state.snapshot':
+        if (data?.sessionId) this.sessionId = data.sessionId;
+        if (data?.revision) this.revision = data.revision;
+        break;
+      case 'conversation.created':
+      case 'conversation.updated':
+        if (data?.conversation?.revision) this.revision = data.conversation.revision;
+        break;
+    }
+
+    this.emit(event as AllEventType, data);
+
+    // Route run events to the onEvent callback of the conversation's run
+    const conversationId = frame.conversationId ?? data?.threadId;
+    const onEvent = conversationId ? this.runHandlers.get(conversationId) : undefined;
+    if (onEvent) {
+      onEvent({ type: event, data });
+      if (RUN_TERMINAL_EVENTS.has(event)) this.runHandlers.delete(conversationId!);
+    }
+  }
+
+  private sendFrame(frame: WsFrame) {
+    const raw = JSON.stringify(frame);
+    if (this.socket && this.socket.readyState === this.WebSocketImpl.OPEN) {
+      this.socket.send(raw);
+    } else {
+      this.outbox.push({ raw, requestId: frame.type === 'request' ? frame.id : undefined });
+    }
+  }
+
+  // A request that already failed for its caller must never reach the server
+  private dropQueued(requestId: string) {
+    this.outbox = this.outbox.filter(queued => queued.requestId !== requestId);
+  }
+
+  private request<T>(method: string, params?: unknown): Promise<T> {
+    if (this.closed) return Promise.reject(new Error('Client closed'));
+
+    const id = crypto.randomUUID();
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(id);
+        this.dropQueued(id);
+        reject(new Error(`Request ${method} timed out`));
+      }, this.requestTimeoutMs);
+
+      this.pendingRequests.set(id, { resolve, reject, timer });
+      this.sendFrame({ type: 'request', id, method, params });
+    });
+  }
+
+  private rejectPending(error: Error) {
+    this.pendingRequests.forEach(({ reject, timer }, id) => {
+      clearTimeout(timer);
+      this.dropQueued(id);
+      reject(error);
+    });
+    this.pendingRequests.clear();
+  }
+
+  // ============================================================================
+  // Conversation Management
+  // ============================================================================
+
+  async createConversation(title?: string, metadata?: Record<string, unknown>): Promise<ConversationDoc> {
+    const conv = await this.request<ConversationDoc>('conversation.create', { title, metadata });
+    this.emit('conversation.created', { conversation: conv });
+    return conv;
+  }
+
+  async listConversations(): Promise<ConversationDoc[]> {
+    return this.request<ConversationDoc[]>('conversation.list');
+  }
+
+  async getConversation(id: Id): Promise<ConversationDoc> {
+    return this.request<ConversationDoc>('conversation.get', { conversationId: id });
+  }
+
+  async updateConversation(id: Id, updates: Partial<ConversationDoc>): Promise<ConversationDoc> {
+    const conv = await this.request<ConversationDoc>('conversation.update', { conversationId: id, updates });
+    this.emit('conversation.updated', { conversation: conv });
+    return conv;
+  }
+
+  async archiveConversation(id: Id): Promise<void> {
+    await this.request<void>('conversation.archive', { conversationId: id });
+    this.emit('conversation.archived', { conversationId: id });
+  }
+
+  // ============================================================================
+  // Message Handling
+  // ============================================================================
+
+  async sendMessage(
+    conversationId: Id | null,
+    text: string,
+    options?: {
+      attachments?: Id[];
+      metadata?: Record<string, unknown>;
+      tools?: Tool[];
+      state?: State;
+      parentId?: Id | null;
+      clientMessageId?: Id;
+      onEvent?: (event: { type: string; data: any }) => void;
+    }
+  ): Promise<MessageDoc> {
+    if (!conversationId) {
+      const conv = await this.createConversation();
+      conversationId = conv.id;
+    }
+
+    if (options?.onEvent) this.runHandlers.set(conversationId, options.onEvent);
+
+    try {
+      // The server acknowledges with the stored user message; the run itself
+      // streams back as event frames tagged with the conversation id
+      return await this.request<MessageDoc>('message.send', {
+        conversationId,
+        clientMessageId: options?.clientMessageId ?? crypto.randomUUID(),
+        text,
+        attachments: options?.attachments,
+        metadata: options?.metadata,
+        tools: options?.tools,
+        state: options?.state,
+        parentId: options?.parentId,
+      });
+    } catch (error) {
+      this.runHandlers.delete(conversationId);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-run the agent after parentId. The server keeps the message tree, so
+   * only the branch point is sent.
+   */
+  async regenerate(
+    conversationId: Id,
+    options: {
+      parentId: Id;
+      history: MessageDoc[];
+      tools?: Tool[];
+      metadata?: Record<string, unknown>;
+      state?: State;
+      onEvent?: (event: { type: string; data: any }) => void;
+    }
+  ): Promise<void> {
+    if (options.onEvent) this.runHandlers.set(conversationId, options.onEvent);
+
+    try {
+      await this.request<void>('message.regenerate', {
+        conversationId,
+        parentId: options.parentId,
+        metadata: options.metadata,
+        tools: options.tools,
+        state: options.state,
+      });
+    } catch (error) {
+      this.runHandlers.delete(conversationId);
+      throw error;
+    }
+  }
+
+  async getMessages(conversationId: Id, options?: MessagePageOptions): Promise<MessageDoc[]> {
+    return this.request<MessageDoc[]>('message.list', { conversationId, ...options });
+  }
+
+  async listChanges(sinceRevision: string): Promise<ChangeSet> {
+    return this.request<ChangeSet>('changes.list', { sinceRevision });
+  }
+
+  async getAgentState(conversationId: Id): Promise<unknown> {
+    return this.request<unknown>('state.get', { conversationId });
+  }
+
+  async cancelMessage(conversationId: Id, messageId: Id): Promise<void> {
+    await this.request<void>('message.cancel', { conversationId, messageId });
+    this.runHandlers.delete(conversationId);
+    this.emit('message.canceled', { messageId });
+  }
+
+  /**
+   * Last revision this client has seen
+   */
+  get lastRevision(): string | undefined {
+    return this.revision;
+  }
+
+  /**
+   * Resume a session after reconnecting. The store calls this on client.ready
+   * with its own revision; without `sinceRevision` the server sends a full
+   * snapshot (e.g. for a session it has not seen). Without a store, pass
+   * `lastRevision` to resume from the last revision this client has seen.
+   */
+  resume(sinceRevision?: string, sessionId: string | undefined = this.sessionId ?? undefined): void {
+    this.sendFrame({
+      type: 'event',
+      event: 'client.resume',
+      data: { sessionId, sinceRevision },
+    });
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.stopHeartbeat();
+    this.rejectPending(new Error('Client closed'));
+    this.runHandlers.clear();
+    this.outbox = [];
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close(1000, 'Client closed');
+
+    this.emit('client.closed', { reason: 'Client closed' });
+    this.listeners.clear();
+  }
+}
+
+/**
+ * Factory function for creating a WebSocket client
+ */
+export function createWsAgent(options: WsAgClientOptions): AgUiClient {
+  return new WsAgClient(options);
+}
+
+export default WsAgClient;
@@ -44,6 +44,9 @@ export type {
   StepFinishedEvent,
   ThinkingStartEvent,
   ThinkingEndEvent,
+  ThinkingTextMessageStartEvent,
+  ThinkingTextMessageContentEvent,
+  ThinkingTextMessageEndEvent,
 } from '@ag-ui/core';
 
 import type {
@@ -71,6 +74,9 @@ import type {
   StepFinishedEvent,
   ThinkingStartEvent,
   ThinkingEndEvent,
+  ThinkingTextMessageStartEvent,
+  ThinkingTextMessageContentEvent,
+  ThinkingTextMessageEndEvent,
   RawEvent,
   CustomEvent,
 } from '@ag-ui/core';
@@ -81,8 +87,9 @@ import type {
 
 export type Id = string;
 
-// Message status for streaming lifecycle
-export type MessageStatus = 'streaming' | 'completed' | 'errored' | 'canceled';
+// Message status for streaming lifecycle, plus the outbox states of optimistic
+// user messages ('sending' until delivered, 'sent' once the server has it)
+export type MessageStatus = 'streaming' | 'completed' | 'errored' | 'canceled' | 'sending' | 'sent' | 'failed';
 
 // Usage tracking (custom extension)
 export interface UsageDoc {
@@ -96,13 +103,18 @@ export interface UsageDoc {
 export type Message = AgMessage & {
   // Custom fields for conversation management
   conversationId?: Id; // Optional for compatibility
-  clientMessageId?: Id; // For idempotency
+  clientMessageId?: Id; // For idempotency - matches an optimistic message to its server echo
   status?: MessageStatus; // For streaming state
+  failure?: { message: string; code?: string }; // Set when status is 'errored' or 'failed'
   usage?: UsageDoc; // Token usage
   createdAt?: string; // ISO timestamp
   metadata?: Record<string, unknown>;
   attachments?: Id[]; // Attachment IDs (references to AttachmentDoc)
 
+  // Branching: edits and regenerations add siblings under the same parent
+  parentId?: Id | null; // Message this one follows (null = first message in the conversation)
+  branchIndex?: number; // Position among siblings sharing parentId
+
   // Official AG-UI fields (explicitly added for compatibility)
   toolCalls?: AgToolCall[]; // Tool calls in assistant messages
 
@@ -149,11 +161,55 @@ export interface ToolDefinition {
 // V2: Bidirectional Tool Execution
 // =============================================================================
 
-// Tool handler function type - executes tool and returns string result
-export type ToolHandler = (args: Record<string, any>) => Promise<string>;
+// Tool handler function type - executes tool and returns its result
+// Args are validated against the tool's `parameters` schema before the call.
+// An async generator streams progress: every yielded value is reported as
+// progress and the returned value is the result.
+export type ToolHandler<TArgs = Record<string, any>> = (
+  args: TArgs,
+  context: ToolHandlerContext
+) => Promise<ToolResult> | AsyncGenerator<unknown, ToolResult, void>;
+
+// Content block in a tool result - attachments are referenced, not inlined
+export type ToolContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; attachmentId?: Id; url?: string; mimeType?: string; alt?: string }
+  | { type: 'file'; attachmentId?: Id; url?: string; mimeType?: string; name?: string };
+
+// What a tool handler may return - strings are sent to the agent as-is,
+// anything else is serialized to JSON (see serializeToolResult)
+export type ToolResult =
+  | string
+  | ToolContentBlock[]
+  | number
+  | boolean
+  | null
+  | unknown[]
+  | Record<string, unknown>;
+
+// Passed to every tool handler call
+export interface ToolHandlerContext {
+  signal: AbortSignal; // Aborted on timeout or when the message/conversation is canceled
+  toolCallId: string;
+  conversationId: string;
+  messageId: string;
+  onProgress: (progress: unknown) => void; // Report intermediate progress (stored on the execution)
+  waitForResponse: () => Promise<ToolResult>; // Resolved by ToolExecutor.respond() - for calls completed from the UI
+}
 
-// Tool execution state
-export type ToolExecutionStatus = 'pending' | 'executing' | 'completed' | 'failed';
+// Tool execution state ('pending' = waiting for approval)
+export type ToolExecutionStatus = 'pending' | 'executing' | 'completed' | 'failed' | 'rejected' | 'canceled';
+
+// Human-in-the-loop policy for a tool
+// 'auto' runs immediately, 'confirm' waits for approve/reject, 'deny' always refuses
+export type ToolApprovalPolicy = 'auto' | 'confirm' | 'deny';
+
+// Retries for a failing tool handler
+export interface ToolRetryPolicy {
+  maxAttempts?: number; // Including the first attempt (default: 1 - no retries)
+  backoffMs?: number; // Delay before the first retry (default: 500)
+  backoffMultiplier?: number; // Growth of the delay per retry (default: 2)
+}
 
 // Tool execution tracking
 export interface ToolExecution {
@@ -163,22 +219,68 @@ export interface ToolExecution {
   conversationId: string;
   messageId: string;
   status: ToolExecutionStatus;
-  result?: string;
+  result?: ToolResult; // As returned by the handler
+  output?: string; // The result as sent to the agent
   error?: Error;
+  rejectionReason?: string; // Set when status is 'rejected'
+  attempts?: number; // Handler invocations so far (retries included)
+  progress?: unknown; // Last value reported through the handler's onProgress
+  awaitingResponse?: boolean; // Handler is waiting for respond() (interactive tools)
   startedAt?: number;
   completedAt?: number;
 }
 
+// Result of one tool call, sent back to the agent
+export interface ToolCallOutput {
+  toolCallId: string;
+  result: string;
+}
+
+// Options for resuming the agent with tool results
+export interface ToolResultOptions {
+  tools?: import('@ag-ui/core').Tool[];
+  metadata?: Record<string, unknown>;
+  state?: import('@ag-ui/core').State;
+  onEvent?: (event: { type: string; data: any }) => void;
+}
+
 // Tool registration
 export interface RegisteredTool {
   tool: import('@ag-ui/core').Tool;
   handler: ToolHandler;
+  policy?: ToolApprovalPolicy; // Defaults to the executor's defaultPolicy
+  retry?: ToolRetryPolicy;
+  timeoutMs?: number; // Per-attempt timeout, defaults to the executor's defaultTimeoutMs
+  component?: ToolComponent<any>; // Rendered by <ToolCallView> for calls of this tool
+  conversationId?: Id; // Scope - only offered and run in this conversation (default: all)
 }
 
+// Lifecycle of a tool call as shown in the UI
+// 'streaming' = args still arriving, 'received' = complete but not executed here
+export type ToolCallStatus = 'streaming' | 'received' | ToolExecutionStatus;
+
+// Props for a generative UI component rendering a tool call
+export interface ToolComponentProps<TArgs = Record<string, any>> {
+  toolCallId: string;
+  toolName: string;
+  messageId: Id;
+  args: Partial<TArgs>; // Parsed args, live while streaming
+  argsText: string; // Raw JSON as received so far
+  status: ToolCallStatus;
+  result?: ToolResult;
+  error?: Error;
+  progress?: unknown;
+  awaitingResponse: boolean; // The handler called waitForResponse() - the component should collect input
+  respond: (result: ToolResult) => void; // Resolve an interactive call with this result
+}
+
+export type ToolComponent<TArgs = Record<string, any>> = import('solid-js').Component<ToolComponentProps<TArgs>>;
+
 // MCP Server reference (custom extension)
+// 'http' = streamable HTTP, 'sse' = HTTP+SSE; 'stdio' servers are not reachable from the browser
 export interface McpServerRef {
   name: string;
-  transport: 'stdio' | 'sse' | 'ws';
+  transport: 'stdio' | 'http' | 'sse' | 'ws';
   uri?: string;
   metadata?: Record<string, unknown>;
 }
@@ -198,6 +300,7 @@ export interface AgentDescriptor {
 export interface StateSnapshot {
   sessionId: string;
   revision: string;
+  syncRevision?: string; // listChanges cursor, kept by caches
   conversations: ConversationDoc[];
   messages: Message[];
   attachments: AttachmentDoc[];
@@ -206,6 +309,22 @@ export interface StateSnapshot {
   state?: any; // Optional custom state from official AG-UI State
 }
 
+// Incremental sync (custom extension) - what changed after a revision
+export interface ChangeSet {
+  revision: string; // Pass as sinceRevision next time
+  conversations: ConversationDoc[]; // Created or updated
+  messages: Message[]; // Created or updated
+  deletedConversationIds: Id[]; // Tombstones
+  deletedMessageIds: Id[];
+  hasMore?: boolean; // More changes follow - call again with `revision`
+}
+
+// Cursor pagination of a conversation's history (custom extension)
+export interface MessagePageOptions {
+  before?: Id; // Only messages older than this one
+  limit?: number; // At most this many - the newest of them, oldest first
+}
+
 // Extended event payloads for custom lifecycle events
 export interface ExtendedEventPayloads {
   // Client lifecycle
@@ -257,9 +376,9 @@ export interface AgEventPayloadMap {
   STEP_FINISHED: StepFinishedEvent;
   THINKING_START: ThinkingStartEvent;
   THINKING_END: ThinkingEndEvent;
-  THINKING_TEXT_MESSAGE_START: ThinkingStartEvent;
-  THINKING_TEXT_MESSAGE_CONTENT: ThinkingEndEvent;
-  THINKING_TEXT_MESSAGE_END: ThinkingEndEvent;
+  THINKING_TEXT_MESSAGE_START: ThinkingTextMessageStartEvent;
+  THINKING_TEXT_MESSAGE_CONTENT: ThinkingTextMessageContentEvent;
+  THINKING_TEXT_MESSAGE_END: ThinkingTextMessageEndEvent;
   RAW: RawEvent;
   CUSTOM: CustomEvent;
 }
@@ -305,13 +424,52 @@ export interface AgUiClient {
       attachments?: Id[];
       metadata?: Record<string, unknown>;
       tools?: import('@ag-ui/core').Tool[]; // V2: Pass tools for this message
+      state?: import('@ag-ui/core').State; // Shared agent state sent as RunAgentInput.state
+      parentId?: Id | null; // Branch point - the message this one follows
+      history?: Message[]; // Selected branch up to parentId, for clients that send full history
+      clientMessageId?: Id; // Echo it on the created user message (optimistic sends)
       onEvent?: (event: { type: string; data: any }) => void;
     }
   ): Promise<Message>;
 
-  getMessages(conversationId: Id): Promise<Message[]>;
+  // Branching (optional) - re-run the agent after parentId, producing a
+  // sibling of the reply that is already there
+  regenerate?(
+    conversationId: Id,
+    options: {
+      parentId: Id;
+      history: Message[]; // Selected branch up to and including parentId
+      tools?: import('@ag-ui/core').Tool[];
+      metadata?: Record<string, unknown>;
+      state?: import('@ag-ui/core').State;
+      onEvent?: (event: { type: string; data: any }) => void;
+    }
+  ): Promise<void>;
+
+  // The whole history, or one page of it. A page shorter than `limit` is the
+  // last one; clients may ignore the options and return everything.
+  getMessages(conversationId: Id, options?: MessagePageOptions): Promise<Message[]>;
   cancelMessage(conversationId: Id, messageId: Id): Promise<void>;
 
+  // Frontend tool results (optional) - resume the agent once tool calls have
+  // run. sendToolResults resumes once for a whole batch; clients with only
+  // sendToolResult are resumed once per result.
+  sendToolResults?(conversationId: Id, results: ToolCallOutput[], options?: ToolResultOptions): Promise<void>;
+  sendToolResult?(conversationId: Id, toolCallId: string, result: string, options?: ToolResultOptions): Promise<void>;
+
+  // Shared agent state (optional) - fetch a fresh snapshot when a STATE_DELTA
+  // cannot be applied. Should resolve to the STATE_SNAPSHOT `snapshot` value.
+  getAgentState?(conversationId: Id): Promise<unknown>;
+
+  // Incremental sync (optional) - changes after sinceRevision ('0' for
+  // everything), in pages. The store then no longer reloads full lists.
+  listChanges?(sinceRevision: string): Promise<ChangeSet>;
+
+  // Session channel (optional - persistent transports such as WsAgClient)
+  // Asks the server to replay everything after sinceRevision (or send a full
+  // state.snapshot when omitted) once the connection has been re-established
+  resume?(sinceRevision?: string, sessionId?: string): void;
+
   // Cleanup
   close(): void;
 }
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createAgUiStore } from '../src/store/createAgUiStore';
+import { MockAgClient } from '../src/testing/mockClient';
+import type { Id } from '../src/types';
+
+const tick = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Serves agent state snapshots on demand, resolved by the test
+class StateClient extends MockAgClient {
+  fetches: ((snapshot: unknown) => void)[] = [];
+
+  getAgentState(_conversationId: Id): Promise<unknown> {
+    return new Promise(resolve => this.fetches.push(resolve));
+  }
+
+  push(type: string, payload: object) {
+    (this as any).emit(type, { threadId: 'c1', ...payload });
+  }
+}
+
+const badDelta = { delta: [{ op: 'replace', path: '/missing/count', value: 1 }] };
+
+describe('agent state refresh', () => {
+  it('keeps one refresh in flight while deltas keep failing', async () => {
+    const client = new StateClient();
+    const store = createAgUiStore(client);
+    client.push('STATE_SNAPSHOT', { snapshot: { count: 0 } });
+
+    client.push('STATE_DELTA', badDelta);
+    client.push('STATE_DELTA', badDelta);
+    client.push('STATE_DELTA', badDelta);
+    expect(client.fetches).toHaveLength(1);
+
+    client.fetches[0]({ count: 3 });
+    await tick();
+    expect(store.state.agentStateByConversation.c1).toEqual({ count: 3 });
+    expect(store.state.agentStateStale.c1).toBeUndefined();
+    store.close();
+  });
+
+  it('ignores a fetched snapshot when a newer one was pushed meanwhile', async () => {
+    const client = new StateClient();
+    const store = createAgUiStore(client);
+    client.push('STATE_SNAPSHOT', { snapshot: { count: 0 } });
+
+    client.push('STATE_DELTA', badDelta);
+    client.push('STATE_SNAPSHOT', { snapshot: { count: 5 } });
+    client.fetches[0]({ count: 1 });
+    await tick();
+
+    expect(store.state.agentStateByConversation.c1).toEqual({ count: 5 });
+    expect(client.fetches).toHaveLength(1);
+    store.close();
+  });
+
+  it('fetches again when deltas still fail after the newer snapshot', async () => {
+    const client = new StateClient();
+    const store = createAgUiStore(client);
+    client.push('STATE_SNAPSHOT', { snapshot: { count: 0 } });
+
+    client.push('STATE_DELTA', badDelta);
+    client.push('STATE_SNAPSHOT', { snapshot: { count: 5 } });
+    client.push('STATE_DELTA', badDelta);
+    client.fetches[0]({ count: 1 });
+    await tick();
+    expect(client.fetches).toHaveLength(2);
+
+    client.fetches[1]({ count: 6 });
+    await tick();
+    expect(store.state.agentStateByConversation.c1).toEqual({ count: 6 });
+    store.close();
+  });
+});
@@ -0,0 +1,188 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { McpClient, McpError, McpToolBridge, mcpResultToToolResult } from '../src/mcp';
+import { ToolExecutor } from '../src/tool-executor';
+import { MockMcpServer } from '../src/testing/mockMcpServer';
+import type { McpServerRef } from '../src/types';
+
+const ref: McpServerRef = { name: 'mock', transport: 'http', uri: 'mock://server' };
+const text = (value: string) => ({ content: [{ type: 'text' as const, text: value }] });
+
+function echoServer(options?: ConstructorParameters<typeof MockMcpServer>[0]) {
+  const server = new MockMcpServer(options);
+  server.addTool(
+    { name: 'echo', description: 'Echo the input', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } },
+    (args) => text(String(args.text))
+  );
+  return server;
+}
+
+// Resolve once pending notifications have been delivered
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('McpClient', () => {
+  it('runs the initialize handshake', async () => {
+    const server = echoServer({ serverInfo: { name: 'stub', version: '9.9.9' } });
+    const client = new McpClient(server.createTransport());
+    await client.connect();
+
+    expect(client.serverInfo).toEqual({ name: 'stub', version: '9.9.9' });
+    expect(server.received.map(m => 'method' in m && m.method)).toEqual(['initialize', 'notifications/initialized']);
+    await client.close();
+  });
+
+  it('follows tools/list pagination', async () => {
+    const server = new MockMcpServer({ pageSize: 2 });
+    for (const name of ['a', 'b', 'c', 'd', 'e']) server.addTool({ name, inputSchema: {} }, () => text(name));
+    const client = new McpClient(server.createTransport());
+    await client.connect();
+
+    expect((await client.listTools()).map(t => t.name)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    await client.close();
+  });
+
+  it('calls tools, forwarding progress', async () => {
+    const server = new MockMcpServer();
+    server.addTool({ name: 'slow', inputSchema: {} }, async (_, { progress }) => {
+      progress({ progress: 1, total: 2 });
+      progress({ progress: 2, total: 2 });
+      return text('done');
+    });
+    const client = new McpClient(server.createTransport());
+    await client.connect();
+
+    const onProgress = vi.fn();
+    await expect(client.callTool('slow', {}, { onProgress })).resolves.toEqual(text('done'));
+    expect(onProgress.mock.calls.map(([p]) => p)).toEqual([{ progress: 1, total: 2 }, { progress: 2, total: 2 }]);
+    await client.close();
+  });
+
+  it('rejects with McpError for server errors', async () => {
+    const client = new McpClient(echoServer().createTransport());
+    await client.connect();
+
+    await expect(client.callTool('missing', {})).rejects.toBeInstanceOf(McpError);
+    await client.close();
+  });
+
+  it('sends notifications/cancelled when the signal aborts', async () => {
+    const server = new MockMcpServer();
+    let aborted = false;
+    server.addTool({ name: 'forever', inputSchema: {} }, (_, { signal }) => new Promise((resolve) => {
+      signal.addEventListener('abort', () => { aborted = true; resolve(text('late')); });
+    }));
+    const client = new McpClient(server.createTransport());
+    await client.connect();
+
+    const controller = new AbortController();
+    const call = client.callTool('forever', {}, { signal: controller.signal });
+    await flush();
+    controller.abort(new Error('Stop'));
+
+    await expect(call).rejects.toThrow('Stop');
+    await flush();
+    expect(aborted).toBe(true);
+    expect(server.received.some(m => 'method' in m && m.method === 'notifications/cancelled')).toBe(true);
+    await client.close();
+  });
+
+  it('fails pending requests when closed', async () => {
+    const server = new MockMcpServer();
+    server.addTool({ name: 'forever', inputSchema: {} }, () => new Promise(() => {}));
+    const client = new McpClient(server.createTransport());
+    await client.connect();
+
+    const call = client.callTool('forever', {});
+    await client.close();
+    await expect(call).rejects.toThrow('MCP client closed');
+  });
+});
+
+describe('McpToolBridge', () => {
+  let executor: ToolExecutor;
+  let bridge: McpToolBridge;
+
+  afterEach(async () => {
+    await bridge?.close();
+    executor?.destroy();
+  });
+
+  const setup = () => {
+    executor = new ToolExecutor();
+    bridge = new McpToolBridge(executor);
+  };
+
+  it('registers server tools and proxies calls', async () => {
+    setup();
+    const server = echoServer();
+    const tools = await bridge.addServer(ref, { transport: server.createTransport(), toolPrefix: 'mock_' });
+
+    expect(tools.map(t => t.name)).toEqual(['mock_echo']);
+    expect(executor.getTool('mock_echo')?.tool.description).toBe('Echo the input');
+    const result = await executor.executeTool('tc1', 'mock_echo', { text: 'hi' }, 'c1', 'm1');
+    expect(result).toBe('hi');
+  });
+
+  it('keeps registrations in sync with tools/list_changed', async () => {
+    setup();
+    const server = echoServer();
+    await bridge.addServer(ref, { transport: server.createTransport() });
+    const changed = vi.fn();
+    bridge.on('tools.changed', changed);
+
+    server.addTool({ name: 'time', inputSchema: {} }, () => text('noon'));
+    await vi.waitFor(() => expect(executor.getTool('time')).toBeDefined());
+    server.removeTool('echo');
+    await vi.waitFor(() => expect(executor.getTool('echo')).toBeUndefined());
+
+    expect(changed).toHaveBeenCalledWith({ server: 'mock', added: ['time'], removed: [] });
+    expect(changed).toHaveBeenCalledWith({ server: 'mock', added: [], removed: ['echo'] });
+  });
+
+  it('unregisters tools and closes the transport on removeServer', async () => {
+    setup();
+    const server = echoServer();
+    const transport = server.createTransport();
+    await bridge.addServer(ref, { transport });
+
+    await bridge.removeServer('mock');
+    expect(executor.getTool('echo')).toBeUndefined();
+    expect(transport.closed).toBe(true);
+    expect(server.openTransports).toBe(0);
+  });
+
+  it('leaves a tool registered by another server alone on removeServer', async () => {
+    setup();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const other = new MockMcpServer();
+    other.addTool({ name: 'echo', description: 'Echo, from the other server', inputSchema: {} }, () => text('other'));
+    await bridge.addServer(ref, { transport: echoServer().createTransport() });
+    await bridge.addServer({ ...ref, name: 'other' }, { transport: other.createTransport() });
+
+    await bridge.removeServer('mock');
+    expect(executor.getTool('echo')?.tool.description).toBe('Echo, from the other server');
+    expect(bridge.getTools('other').map(t => t.name)).toEqual(['echo']);
+    warn.mockRestore();
+  });
+
+  it('closes the transport when the handshake fails', async () => {
+    setup();
+    const server = echoServer({ failInitialize: true });
+    const transport = server.createTransport();
+
+    await expect(bridge.addServer(ref, { transport })).rejects.toBeInstanceOf(McpError);
+    expect(transport.closed).toBe(true);
+    expect(server.openTransports).toBe(0);
+    expect(bridge.getTools()).toEqual([]);
+  });
+
+  it('turns isError results into failed executions', async () => {
+    setup();
+    const server = new MockMcpServer();
+    server.addTool({ name: 'broken', inputSchema: {} }, () => ({ ...text('disk full'), isError: true }));
+    await bridge.addServer(ref, { transport: server.createTransport() });
+
+    await executor.executeTool('tc1', 'broken', {}, 'c1', 'm1').catch(() => {});
+    expect(executor.getExecution('tc1')?.status).toBe('failed');
+    expect(() => mcpResultToToolResult({ ...text('nope'), isError: true })).toThrow('nope');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAgUiStore } from '../src/store/createAgUiStore';
+import { MockAgClient } from '../src/testing/mockClient';
+import { ToolExecutor } from '../src/tool-executor';
+import type { Id, MessageDoc, ToolCallOutput } from '../src/types';
+
+const tick = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('outbox', () => {
+  it('sends the next message once the previous run has ended', async () => {
+    const client = new MockAgClient({ tokenDelayMs: 5, replyGenerator: () => ['a', 'b', 'c'] });
+    const order: string[] = [];
+    client.on('message.completed', () => order.push('reply'));
+    const send = vi.spyOn(client, 'sendMessage');
+    send.mockImplementation(async function (this: MockAgClient, ...args) {
+      order.push(`send:${args[1]}`);
+      return MockAgClient.prototype.sendMessage.apply(this, args);
+    });
+
+    const store = createAgUiStore(client);
+    const conversation = await client.createConversation('Test');
+
+    await Promise.all([
+      store.sendMessage(conversation.id, 'first'),
+      store.sendMessage(conversation.id, 'second'),
+    ]);
+    await tick(100);
+
+    expect(order).toEqual(['send:first', 'reply', 'send:second', 'reply']);
+    store.close();
+  });
+
+  it('does not hold the queue after a failed send', async () => {
+    const client = new MockAgClient({ tokenDelayMs: 1 });
+    const send = vi.spyOn(client, 'sendMessage').mockRejectedValueOnce(new Error('offline'));
+
+    const store = createAgUiStore(client);
+    const conversation = await client.createConversation('Test');
+
+    const first = store.sendMessage(conversation.id, 'first');
+    const second = store.sendMessage(conversation.id, 'second');
+    await expect(first).rejects.toThrow('offline');
+    await second;
+
+    expect(send).toHaveBeenCalledTimes(2);
+    store.close();
+  });
+
+  it('sends an edit in turn, after the run of the message before it', async () => {
+    const client = new MockAgClient({
+      tokenDelayMs: 5,
+      replyGenerator: () => ['a', 'b'],
+      initialSnapshot: {
+        conversations: [{ id: 'c1', title: 'Test', createdAt: '', updatedAt: '', revision: '1', status: 'active' }],
+        messages: [{ id: 'u0', conversationId: 'c1', role: 'user', content: 'hi', status: 'completed', createdAt: '' } as MessageDoc],
+      },
+    });
+    const order: string[] = [];
+    client.on('message.completed', () => order.push('reply'));
+    const send = vi.spyOn(client, 'sendMessage');
+    send.mockImplementation(async function (this: MockAgClient, ...args) {
+      order.push(`send:${args[1]}`);
+      return MockAgClient.prototype.sendMessage.apply(this, args);
+    });
+
+    const store = createAgUiStore(client);
+    await store.loadMessages('c1');
+    await Promise.all([
+      store.sendMessage('c1', 'first'),
+      store.editMessage('c1', 'u0', 'edited'),
+    ]);
+    await tick(100);
+
+    expect(order).toEqual(['send:first', 'reply', 'send:edited', 'reply']);
+    store.close();
+  });
+
+  it('holds the queue through the tool calls of a run and the run that resumes it', async () => {
+    const order: string[] = [];
+    let runs = 0;
+
+    // Answers each message with a tool call; the tool result gets a plain reply
+    class ToolCallingClient extends MockAgClient {
+      private run(conversationId: Id, withToolCall: boolean) {
+        const emit = (type: string, payload: object) => (this as any).emit(type, { threadId: conversationId, ...payload });
+        const runId = `r${++runs}`;
+        const messageId = `a${runs}`;
+        setTimeout(() => {
+          emit('RUN_STARTED', { runId });
+          emit('TEXT_MESSAGE_START', { runId, messageId, role: 'assistant' });
+          emit('TEXT_MESSAGE_CONTENT', { runId, messageId, delta: 'ok' });
+          emit('TEXT_MESSAGE_END', { runId, messageId });
+          if (withToolCall) {
+            emit('TOOL_CALL_START', { runId, toolCallId: `t${runs}`, toolCallName: 'lookup', parentMessageId: messageId });
+            emit('TOOL_CALL_ARGS', { runId, toolCallId: `t${runs}`, delta: '{}' });
+            emit('TOOL_CALL_END', { runId, toolCallId: `t${runs}` });
+          }
+          order.push(`finished:${runId}`);
+          emit('RUN_FINISHED', { runId });
+        }, 5);
+      }
+
+      override async sendMessage(conversationId: Id | null, text: string): Promise<MessageDoc> {
+        order.push(`send:${text}`);
+        this.run(conversationId!, true);
+        return {} as MessageDoc;
+      }
+
+      async sendToolResults(conversationId: Id, outputs: ToolCallOutput[]): Promise<void> {
+        order.push(`results:${outputs.map(o => o.toolCallId).join(',')}`);
+        this.run(conversationId, false);
+      }
+    }
+
+    const client = new ToolCallingClient();
+    const toolExecutor = new ToolExecutor();
+    toolExecutor.registerTool({ name: 'lookup', description: 'Look up', parameters: { type: 'object' } }, async () => {
+      await tick(10);
+      return 'found';
+    });
+    const store = createAgUiStore({ client, toolExecutor });
+    const conversation = await client.createConversation('Test');
+
+    await Promise.all([
+      store.sendMessage(conversation.id, 'first'),
+      store.sendMessage(conversation.id, 'second'),
+    ]);
+    await tick(100);
+
+    expect(order.slice(0, 5)).toEqual(['send:first', 'finished:r1', 'results:t1', 'finished:r2', 'send:second']);
+    store.close();
+  });
+});
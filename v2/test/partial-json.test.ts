@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { PartialJsonParser, parsePartialJson } from '../src/partial-json';
+import { applyEvent, initStateFromSnapshot } from '../src/store/state';
+
+// [text so far, best-effort value]
+const fixtures: [string, unknown][] = [
+  ['', undefined],
+  ['{"title": "Quarterly rep', { title: 'Quarterly rep' }],
+  ['{"tags": ["a", "b"], "dra', { tags: ['a', 'b'] }],
+  ['{"a": 1, "b": tru', { a: 1 }],
+  ['{"a": -', {}],
+  ['{"a": 1.', { a: 1 }],
+  ['{"a": 2e', { a: 2 }],
+  ['{"a": "line\\', { a: 'line' }],
+  ['{"a": "\\u00e9\\n", "b": null, "c": false}', { a: 'é\n', b: null, c: false }],
+  ['{"nested": {"list": [1, {"x": "y"}, [true', { nested: { list: [1, { x: 'y' }, [true]] } }],
+  ['{"a": 1 x', { a: 1 }],
+  ['[1, 2', [1, 2]],
+  ['"just a str', 'just a str'],
+  ['{"a": 1} trailing', { a: 1 }],
+];
+
+const chunked = (text: string, size: number) => {
+  const parser = new PartialJsonParser();
+  for (let i = 0; i < text.length; i += size) parser.push(text.slice(i, i + size));
+  return parser.value;
+};
+
+describe('parsePartialJson', () => {
+  it.each(fixtures)('parses %j', (text, expected) => {
+    expect(parsePartialJson(text)).toEqual(expected);
+  });
+
+  it.each([1, 2, 3, 7])('gives the same value when pushed in chunks of %i', (size) => {
+    for (const [text, expected] of fixtures) expect(chunked(text, size)).toEqual(expected);
+  });
+
+  it('returns only what each push changed', () => {
+    const parser = new PartialJsonParser();
+    expect(parser.push('{"title": "Quar')).toEqual([
+      { path: [], value: {} },
+      { path: ['title'], value: 'Quar' },
+    ]);
+    expect(parser.push('terly", "n": 4')).toEqual([
+      { path: ['title'], value: 'Quarterly' },
+      { path: ['n'], value: 4 },
+    ]);
+    expect(parser.length).toBe('{"title": "Quarterly", "n": 4'.length);
+  });
+});
+
+describe('TOOL_CALL_ARGS', () => {
+  const start = () => {
+    const state = initStateFromSnapshot({ sessionId: '', revision: '0', conversations: [], messages: [], attachments: [] });
+    applyEvent(state, 'TOOL_CALL_START', { toolCallId: 't1', toolCallName: 'draft', parentMessageId: 'm1' });
+    return state;
+  };
+
+  it('updates partialArgs in place', () => {
+    const state = start();
+    applyEvent(state, 'TOOL_CALL_ARGS', { toolCallId: 't1', delta: '{"doc": {"title": "Hel' });
+    const args = state.toolCallsInProgress.t1.partialArgs;
+    const doc = args.doc;
+
+    applyEvent(state, 'TOOL_CALL_ARGS', { toolCallId: 't1', delta: 'lo", "body": "x' });
+    expect(state.toolCallsInProgress.t1.partialArgs).toBe(args);
+    expect(args.doc).toBe(doc);
+    expect(args).toEqual({ doc: { title: 'Hello', body: 'x' } });
+  });
+
+  it('re-parses a record restored without its parser', () => {
+    const state = start();
+    applyEvent(state, 'TOOL_CALL_ARGS', { toolCallId: 't1', delta: '{"a": [1' });
+    state.toolCallsInProgress.t1 = { ...state.toolCallsInProgress.t1, partialArgs: {} };
+
+    applyEvent(state, 'TOOL_CALL_ARGS', { toolCallId: 't1', delta: ', 2]}' });
+    expect(state.toolCallsInProgress.t1.args).toBe('{"a": [1, 2]}');
+    expect(state.toolCallsInProgress.t1.partialArgs).toEqual({ a: [1, 2] });
+  });
+
+  it('keeps partialArgs an object when the args are not one', () => {
+    const state = start();
+    applyEvent(state, 'TOOL_CALL_ARGS', { toolCallId: 't1', delta: '[1, 2' });
+    expect(state.toolCallsInProgress.t1.partialArgs).toEqual({});
+  });
+});
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SdkAgClient } from '../src/transport/sdk-agent';
+
+const page = (...ids: string[]) => ids.map(id => ({ id, conversationId: 'c1', role: 'user', content: id }));
+
+function stubMessages(...pages: ReturnType<typeof page>[]) {
+  const fetchMock = vi.fn();
+  for (const messages of pages) {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ messages }), { status: 200 }));
+  }
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('SdkAgClient.getMessages', () => {
+  it('passes before and limit to the endpoint', async () => {
+    const fetchMock = stubMessages(page('m3', 'm4'), page('m1', 'm2'));
+    const client = new SdkAgClient({ baseUrl: 'http://test' });
+
+    expect((await client.getMessages('c1', { limit: 2 })).map(m => m.id)).toEqual(['m3', 'm4']);
+    expect((await client.getMessages('c1', { before: 'm3', limit: 2 })).map(m => m.id)).toEqual(['m1', 'm2']);
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://test/conversations/c1/messages?limit=2');
+    expect(fetchMock.mock.calls[1][0]).toBe('http://test/conversations/c1/messages?before=m3&limit=2');
+  });
+
+  it('keeps the loaded pages as the thread history', async () => {
+    stubMessages(page('m3', 'm4'), page('m1', 'm2'), page('m3', 'm4', 'm5'));
+    const client = new SdkAgClient({ baseUrl: 'http://test' });
+    const history = () => (client as any).histories.get('c1').map((m: { id: string }) => m.id);
+
+    await client.getMessages('c1', { limit: 2 });
+    await client.getMessages('c1', { before: 'm3', limit: 2 });
+    expect(history()).toEqual(['m1', 'm2', 'm3', 'm4']);
+
+    // Reloading the newest page keeps the older messages in front
+    await client.getMessages('c1', { limit: 3 });
+    expect(history()).toEqual(['m1', 'm2', 'm3', 'm4', 'm5']);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { SseDecoder, readSseEvents } from '../src/transport/sse-decoder';
+import type { SseEvent } from '../src/transport/sse-decoder';
+// v0 keeps its own copy of the decoder (see its header) - both must pass the same fixtures
+import { SseDecoder as V0SseDecoder } from '../../v0/src/utils/sse-decoder';
+import v2Source from '../src/transport/sse-decoder.ts?raw';
+import v0Source from '../../v0/src/utils/sse-decoder.ts?raw';
+
+interface Fixture {
+  name: string;
+  stream: string;
+  events: Partial<SseEvent>[];
+  comments?: string[];
+  retry?: number;
+}
+
+const fixtures: Fixture[] = [
+  {
+    name: 'single-line data',
+    stream: 'data: {"type":"RUN_STARTED"}\n\n',
+    events: [{ type: 'message', data: '{"type":"RUN_STARTED"}' }],
+  },
+  {
+    name: 'multi-line data joined with newlines',
+    stream: 'data: first\ndata:second\ndata:  third\n\n',
+    events: [{ data: 'first\nsecond\n third' }],
+  },
+  {
+    name: 'empty data lines',
+    stream: 'data\ndata\n\n',
+    events: [{ data: '\n' }],
+  },
+  {
+    name: 'event type, id and retry',
+    stream: 'event: TEXT_MESSAGE_CONTENT\nid: 42\nretry: 1500\ndata: {}\n\ndata: next\n\n',
+    events: [
+      { type: 'TEXT_MESSAGE_CONTENT', data: '{}', lastEventId: '42' },
+      { type: 'message', data: 'next', lastEventId: '42' },
+    ],
+    retry: 1500,
+  },
+  {
+    name: 'CRLF and lone CR line endings',
+    stream: 'data: a\r\ndata: b\r\n\r\ndata: c\rdata: d\r\r',
+    events: [{ data: 'a\nb' }, { data: 'c\nd' }],
+  },
+  {
+    name: 'heartbeat comments between events',
+    stream: ': ping\n\ndata: x\n\n:\n: keep-alive\n\n',
+    events: [{ data: 'x' }],
+    comments: ['ping', '', 'keep-alive'],
+  },
+  {
+    name: 'multi-byte UTF-8',
+    stream: 'data: héllo 世界 🎉\n\n',
+    events: [{ data: 'héllo 世界 🎉' }],
+  },
+  {
+    name: 'leading byte order mark',
+    stream: '\ufeffdata: bom\n\n',
+    events: [{ data: 'bom' }],
+  },
+  {
+    name: 'unknown fields and invalid retry ignored',
+    stream: 'foo: bar\nretry: soon\ndata: ok\n\n',
+    events: [{ data: 'ok' }],
+  },
+  {
+    name: 'id containing NULL ignored',
+    stream: 'id: 1\ndata: a\n\nid: 2\0x\ndata: b\n\n',
+    events: [{ data: 'a', lastEventId: '1' }, { data: 'b', lastEventId: '1' }],
+  },
+  {
+    name: 'trailing event without blank line discarded',
+    stream: 'data: done\n\ndata: partial',
+    events: [{ data: 'done' }],
+  },
+];
+
+const decoders = [
+  ['v2', SseDecoder],
+  ['v0', V0SseDecoder],
+] as const;
+
+// Every split of the stream's bytes into chunks of `size`
+function chunked(stream: string, size: number): Uint8Array[] {
+  const bytes = new TextEncoder().encode(stream);
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) chunks.push(bytes.slice(i, i + size));
+  return chunks;
+}
+
+describe.each(decoders)('SseDecoder (%s)', (_, Decoder) => {
+  describe.each([1, 2, 3, 7, 1024])('chunks of %i bytes', (size) => {
+    it.each(fixtures)('$name', (fixture) => {
+      const comments: string[] = [];
+      const decoder = new Decoder({ onComment: text => comments.push(text) });
+      const events: SseEvent[] = [];
+      for (const chunk of chunked(fixture.stream, size)) events.push(...decoder.push(chunk));
+      events.push(...decoder.end());
+
+      expect(events).toHaveLength(fixture.events.length);
+      fixture.events.forEach((expected, i) => expect(events[i]).toMatchObject(expected));
+      if (fixture.comments) expect(comments).toEqual(fixture.comments);
+      if (fixture.retry !== undefined) expect(decoder.retry).toBe(fixture.retry);
+    });
+  });
+
+  it('accepts already-decoded text', () => {
+    const decoder = new Decoder();
+    expect(decoder.push('data: a\r')).toEqual([]);
+    expect(decoder.push('\n\r\n')).toMatchObject([{ data: 'a' }]);
+  });
+
+  it('keeps the last event id for reconnection', () => {
+    const decoder = new Decoder();
+    decoder.push('id: 7\ndata: a\n\nid: 8\n\n');
+    expect(decoder.lastEventId).toBe('8');
+  });
+});
+
+describe('v0 SseDecoder copy', () => {
+  // Everything after the header banner, which explains the copy
+  const code = (source: string) => source.slice(source.indexOf('\n// ===', 1));
+
+  it('has the same code as v2', () => {
+    expect(code(v0Source)).toBe(code(v2Source));
+  });
+});
+
+describe('readSseEvents', () => {
+  it('yields events from a response body, flushing at the end', async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunked('data: 1\n\ndata: 2\n\n', 3)) controller.enqueue(chunk);
+        controller.close();
+      },
+    });
+    const events: string[] = [];
+    for await (const event of readSseEvents(body)) events.push(event.data);
+    expect(events).toEqual(['1', '2']);
+  });
+});
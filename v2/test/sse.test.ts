@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SseAgClient } from '../src/transport/sse';
+
+// A text/event-stream response that closes cleanly after the given frames
+function sseResponse(frames: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const frame of frames) controller.enqueue(encoder.encode(frame));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const frame = (id: string, type: string, data: object) =>
+  `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+
+function createClient(maxRetries = 3) {
+  return new SseAgClient({ baseUrl: 'http://test', reconnect: { maxRetries, initialDelayMs: 1 } });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('SseAgClient.sendMessage', () => {
+  it('resumes with Last-Event-ID when the stream closes before the run finishes', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(sseResponse([
+        frame('1', 'RUN_STARTED', { threadId: 'c1', runId: 'r1' }),
+        frame('2', 'TEXT_MESSAGE_CONTENT', { messageId: 'm1', delta: 'Hel' }),
+      ]))
+      .mockResolvedValueOnce(sseResponse([
+        frame('3', 'TEXT_MESSAGE_CONTENT', { messageId: 'm1', delta: 'lo' }),
+        frame('4', 'RUN_FINISHED', { threadId: 'c1', runId: 'r1' }),
+      ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = createClient();
+    const deltas: string[] = [];
+    client.on('TEXT_MESSAGE_CONTENT', (e: any) => deltas.push(e.delta));
+
+    await client.sendMessage('c1', 'hi');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].headers['Last-Event-ID']).toBe('2');
+    expect(deltas).toEqual(['Hel', 'lo']);
+  });
+
+  it('returns once a terminal event arrives', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+      frame('1', 'RUN_STARTED', { threadId: 'c1', runId: 'r1' }),
+      frame('2', 'RUN_ERROR', { message: 'boom' }),
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await createClient().sendMessage('c1', 'hi');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats message.completed as terminal for servers without run events', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+      frame('1', 'message.created', { message: { id: 'm1', conversationId: 'c1' } }),
+      frame('2', 'message.completed', { messageId: 'm1' }),
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await createClient().sendMessage('c1', 'hi');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxRetries when the stream keeps closing empty', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => sseResponse([]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(createClient(2).sendMessage('c1', 'hi')).rejects.toThrow('Stream ended before the run finished');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not restore the retry budget on heartbeats or replays of the resumed event', async () => {
+    let calls = 0;
+    const fetchMock = vi.fn().mockImplementation(async () => {
+      calls++;
+      if (calls === 1) return sseResponse([frame('1', 'RUN_STARTED', { threadId: 'c1', runId: 'r1' }), ': ping\n\n']);
+      // Stop a client that never gives up
+      if (calls > 10) return sseResponse([frame('2', 'RUN_FINISHED', { threadId: 'c1', runId: 'r1' })]);
+      return sseResponse([': ping\n\n', frame('1', 'RUN_STARTED', { threadId: 'c1', runId: 'r1' })]);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(createClient(2).sendMessage('c1', 'hi')).rejects.toThrow('Stream ended before the run finished');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[2][1].headers['Last-Event-ID']).toBe('1');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAgUiStore } from '../src/store/createAgUiStore';
+import { MemoryChatCache } from '../src/storage/cache';
+import { MockAgClient } from '../src/testing/mockClient';
+import type { ChangeSet } from '../src/types';
+
+const changeSet = (revision: string, changes: Partial<ChangeSet> = {}): ChangeSet => ({
+  revision,
+  conversations: [],
+  messages: [],
+  deletedConversationIds: [],
+  deletedMessageIds: [],
+  ...changes,
+});
+
+describe('incremental sync', () => {
+  it('only advances its cursor with applied change sets', async () => {
+    const client = Object.assign(new MockAgClient(), {
+      listChanges: vi.fn(async (since: string) => changeSet(since === '0' ? '1' : since)),
+    });
+    const store = createAgUiStore(client);
+
+    await store.sync();
+    expect(store.state.syncRevision).toBe('1');
+
+    // A newer document from outside the change feed moves the session revision only
+    await client.createConversation('A');
+    await client.createConversation('B');
+    expect(store.state.revision).toBe('2');
+
+    await store.sync();
+    expect(client.listChanges).toHaveBeenLastCalledWith('1');
+    store.close();
+  });
+
+  it('resumes from the cached cursor', async () => {
+    const cache = new MemoryChatCache();
+    await cache.save({ sessionId: '', revision: '9', syncRevision: '4', conversations: [], messages: [], attachments: [] });
+    const client = Object.assign(new MockAgClient(), {
+      listChanges: vi.fn(async () => changeSet('5')),
+    });
+    const store = createAgUiStore({ client, cache });
+
+    await store.sync();
+    expect(client.listChanges).toHaveBeenCalledWith('4');
+    expect(store.state.syncRevision).toBe('5');
+    store.close();
+  });
+});
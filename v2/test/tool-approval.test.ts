@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ToolExecutionError, ToolExecutor, ToolRejectedError } from '../src/tool-executor';
+
+const tool = (name: string) => ({ name, description: name, parameters: { type: 'object' } });
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('tool approval', () => {
+  it('runs auto tools right away', async () => {
+    const executor = new ToolExecutor();
+    const handler = vi.fn(async () => 'done');
+    executor.registerTool(tool('echo'), handler);
+
+    await expect(executor.executeTool('t1', 'echo', {}, 'c1', 'm1')).resolves.toBe('done');
+    expect(handler).toHaveBeenCalledOnce();
+    expect(executor.getExecution('t1')?.status).toBe('completed');
+  });
+
+  it('parks confirm tools in pending until approved', async () => {
+    const executor = new ToolExecutor();
+    const handler = vi.fn(async () => 'deleted');
+    const requested = vi.fn();
+    executor.on('tool.approval.requested', requested);
+    executor.registerTool(tool('delete'), handler, { policy: 'confirm' });
+
+    const result = executor.executeTool('t1', 'delete', { id: 1 }, 'c1', 'm1');
+    await sleep(0);
+    expect(executor.getExecution('t1')?.status).toBe('pending');
+    expect(executor.getPendingExecutions('c1').map(e => e.toolCallId)).toEqual(['t1']);
+    expect(requested).toHaveBeenCalledWith({ toolCallId: 't1', toolName: 'delete', args: { id: 1 }, conversationId: 'c1' });
+    expect(handler).not.toHaveBeenCalled();
+
+    executor.approve('t1');
+    await expect(result).resolves.toBe('deleted');
+    expect(executor.getExecution('t1')?.status).toBe('completed');
+    expect(executor.getPendingExecutions('c1')).toEqual([]);
+  });
+
+  it('rejects with a structured refusal for the agent', async () => {
+    const executor = new ToolExecutor();
+    const handler = vi.fn(async () => 'deleted');
+    executor.registerTool(tool('delete'), handler, { policy: 'confirm' });
+
+    const result = executor.executeTool('t1', 'delete', {}, 'c1', 'm1');
+    await sleep(0);
+    executor.reject('t1', 'Not now');
+
+    const error = await result.catch(e => e);
+    expect(error).toBeInstanceOf(ToolRejectedError);
+    expect(JSON.parse(error.toToolResult())).toEqual({
+      status: 'rejected',
+      error: 'TOOL_CALL_REJECTED',
+      toolName: 'delete',
+      reason: 'Not now',
+    });
+    expect(executor.getExecution('t1')).toMatchObject({ status: 'rejected', rejectionReason: 'Not now' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('refuses deny tools without asking', async () => {
+    const executor = new ToolExecutor();
+    const requested = vi.fn();
+    executor.on('tool.approval.requested', requested);
+    executor.registerTool(tool('format'), async () => 'formatted', { policy: 'deny' });
+
+    await expect(executor.executeTool('t1', 'format', {}, 'c1', 'm1')).rejects.toBeInstanceOf(ToolRejectedError);
+    expect(executor.getExecution('t1')?.status).toBe('rejected');
+    expect(requested).not.toHaveBeenCalled();
+  });
+
+  it('applies the default policy to tools registered without one', async () => {
+    const executor = new ToolExecutor({ defaultPolicy: 'confirm' });
+    executor.registerTool(tool('echo'), async () => 'done');
+    executor.registerTool(tool('free'), async () => 'done', { policy: 'auto' });
+
+    expect(executor.getPolicy('echo')).toBe('confirm');
+    await expect(executor.executeTool('t1', 'free', {}, 'c1', 'm1')).resolves.toBe('done');
+    executor.executeTool('t2', 'echo', {}, 'c1', 'm1').catch(() => {});
+    await sleep(0);
+    expect(executor.getExecution('t2')?.status).toBe('pending');
+    executor.destroy();
+  });
+
+  it('withdraws a pending call when it is canceled', async () => {
+    const executor = new ToolExecutor();
+    executor.registerTool(tool('delete'), async () => 'deleted', { policy: 'confirm' });
+
+    const result = executor.executeTool('t1', 'delete', {}, 'c1', 'm1');
+    await sleep(0);
+    executor.cancelForMessage('m1');
+
+    const error = await result.catch(e => e);
+    expect(error).toBeInstanceOf(ToolExecutionError);
+    expect(error.code).toBe('TOOL_CANCELED');
+    expect(executor.getExecution('t1')?.status).toBe('canceled');
+
+    // Approving afterwards does nothing
+    executor.approve('t1');
+    expect(executor.getExecution('t1')?.status).toBe('canceled');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAgUiStore } from '../src/store/createAgUiStore';
+import { MockAgClient } from '../src/testing/mockClient';
+import { ToolExecutor } from '../src/tool-executor';
+import type { Id, ToolCallOutput } from '../src/types';
+
+const tool = (name: string) => ({ name, description: name, parameters: { type: 'object' } });
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Streams assistant messages that ask for tool calls
+class ToolCallingClient extends MockAgClient {
+  push(type: string, payload: object) {
+    (this as any).emit(type, { threadId: 'c1', ...payload });
+  }
+
+  // An assistant message asking for the given tool calls, in run r1 unless runId is null
+  requestTools(calls: [toolCallId: string, toolName: string][], runId: string | null = 'r1') {
+    const run = runId ? { runId } : {};
+    if (runId) this.push('RUN_STARTED', run);
+    this.push('TEXT_MESSAGE_START', { ...run, messageId: 'a1', role: 'assistant' });
+    for (const [toolCallId, toolCallName] of calls) {
+      this.push('TOOL_CALL_START', { ...run, toolCallId, toolCallName, parentMessageId: 'a1' });
+      this.push('TOOL_CALL_ARGS', { ...run, toolCallId, delta: '{}' });
+      this.push('TOOL_CALL_END', { ...run, toolCallId });
+    }
+    this.push('TEXT_MESSAGE_END', { ...run, messageId: 'a1' });
+  }
+}
+
+// Records how the store resumes the agent
+class ToolResultClient extends ToolCallingClient {
+  batches: ToolCallOutput[][] = [];
+
+  async sendToolResults(_conversationId: Id, outputs: ToolCallOutput[]): Promise<void> {
+    this.batches.push(outputs);
+  }
+}
+
+describe('tool call batching', () => {
+  it('runs the calls of a message concurrently and resumes the agent once', async () => {
+    const client = new ToolResultClient();
+    const toolExecutor = new ToolExecutor({ maxConcurrency: 2 });
+    let running = 0;
+    let peak = 0;
+    toolExecutor.registerTool(tool('lookup'), async (_args, context) => {
+      peak = Math.max(peak, ++running);
+      await sleep(5);
+      running--;
+      return `found ${context.toolCallId}`;
+    });
+    const store = createAgUiStore({ client, toolExecutor });
+
+    client.requestTools([['t1', 'lookup'], ['t2', 'lookup'], ['t3', 'lookup']]);
+    await sleep(20);
+    expect(client.batches).toEqual([]); // The run is still going
+
+    client.push('RUN_FINISHED', { runId: 'r1' });
+    await vi.waitFor(() => expect(client.batches).toHaveLength(1));
+    expect(client.batches[0]).toEqual([
+      { toolCallId: 't1', result: 'found t1' },
+      { toolCallId: 't2', result: 'found t2' },
+      { toolCallId: 't3', result: 'found t3' },
+    ]);
+    expect(peak).toBe(2);
+    store.close();
+  });
+
+  it('leaves tools it does not have to the agent', async () => {
+    const client = new ToolResultClient();
+    const toolExecutor = new ToolExecutor();
+    toolExecutor.registerTool(tool('lookup'), async () => 'found');
+    const store = createAgUiStore({ client, toolExecutor });
+
+    client.requestTools([['t1', 'lookup'], ['t2', 'server_search']]);
+    client.push('RUN_FINISHED', { runId: 'r1' });
+    await vi.waitFor(() => expect(client.batches).toHaveLength(1));
+    expect(client.batches[0].map(o => o.toolCallId)).toEqual(['t1']);
+    store.close();
+  });
+
+  it('closes the batch at the end of the message without run events', async () => {
+    const client = new ToolResultClient();
+    const toolExecutor = new ToolExecutor();
+    toolExecutor.registerTool(tool('lookup'), async () => 'found');
+    const store = createAgUiStore({ client, toolExecutor });
+
+    client.requestTools([['t1', 'lookup'], ['t2', 'lookup']], null);
+    await vi.waitFor(() => expect(client.batches).toHaveLength(1));
+    expect(client.batches[0].map(o => o.toolCallId)).toEqual(['t1', 't2']);
+    store.close();
+  });
+
+  it('resumes once per result through clients without sendToolResults', async () => {
+    const results: string[] = [];
+    class SingleResultClient extends ToolCallingClient {
+      async sendToolResult(_conversationId: Id, toolCallId: string, result: string): Promise<void> {
+        results.push(`${toolCallId}=${result}`);
+      }
+    }
+    const client = new SingleResultClient();
+    const toolExecutor = new ToolExecutor();
+    toolExecutor.registerTool(tool('lookup'), async () => 'found');
+    const store = createAgUiStore({ client, toolExecutor });
+
+    client.requestTools([['t1', 'lookup'], ['t2', 'lookup']]);
+    client.push('RUN_FINISHED', { runId: 'r1' });
+    await vi.waitFor(() => expect(results).toEqual(['t1=found', 't2=found']));
+    store.close();
+  });
+
+  it('drops the batch when the run fails', async () => {
+    const client = new ToolResultClient();
+    const toolExecutor = new ToolExecutor();
+    toolExecutor.registerTool(tool('lookup'), () => new Promise<string>(() => {}));
+    const store = createAgUiStore({ client, toolExecutor });
+
+    client.requestTools([['t1', 'lookup']]);
+    client.push('RUN_ERROR', { runId: 'r1', message: 'boom' });
+    await sleep(10);
+
+    expect(toolExecutor.getExecution('t1')?.status).toBe('canceled');
+    expect(client.batches).toEqual([]);
+    store.close();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { ToolExecutor, interactiveToolHandler } from '../src/tool-executor';
+
+const tool = (name: string) => ({ name, description: name, parameters: { type: 'object' } });
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('interactive tools', () => {
+  it('resolves waitForResponse() with what the UI submits', async () => {
+    const executor = new ToolExecutor();
+    executor.registerTool(tool('ask'), interactiveToolHandler);
+
+    const result = executor.executeTool('t1', 'ask', {}, 'c1', 'm1');
+    await sleep(0);
+    expect(executor.getExecution('t1')?.awaitingResponse).toBe(true);
+    expect(executor.respond('t1', { answer: 'yes' })).toBe(true);
+
+    await expect(result).resolves.toBe('{"answer":"yes"}');
+    expect(executor.getExecution('t1')?.awaitingResponse).toBe(false);
+    expect(executor.respond('t1', 'again')).toBe(false);
+  });
+
+  it('frees its concurrency slot while waiting for the user', async () => {
+    const executor = new ToolExecutor({ maxConcurrency: 1 });
+    executor.registerTool(tool('ask'), interactiveToolHandler);
+    executor.registerTool(tool('echo'), async () => 'done');
+
+    const asked = executor.executeTool('t1', 'ask', {}, 'c1', 'm1');
+    await sleep(0);
+    await expect(executor.executeTool('t2', 'echo', {}, 'c1', 'm1')).resolves.toBe('done');
+
+    executor.respond('t1', 'ok');
+    await expect(asked).resolves.toBe('ok');
+  });
+
+  it('takes a slot again before continuing after the response', async () => {
+    const executor = new ToolExecutor({ maxConcurrency: 1 });
+    const order: string[] = [];
+    executor.registerTool(tool('ask'), async (_args, context) => {
+      const answer = await context.waitForResponse();
+      order.push('ask resumed');
+      return answer;
+    });
+    let finishSlow!: () => void;
+    executor.registerTool(tool('slow'), () => new Promise<string>(resolve => {
+      finishSlow = () => {
+        order.push('slow finished');
+        resolve('slow');
+      };
+    }));
+
+    const asked = executor.executeTool('t1', 'ask', {}, 'c1', 'm1');
+    await sleep(0);
+    const slow = executor.executeTool('t2', 'slow', {}, 'c1', 'm1');
+    await sleep(0);
+
+    executor.respond('t1', 'ok');
+    await sleep(0);
+    finishSlow();
+    await Promise.all([asked, slow]);
+    expect(order).toEqual(['slow finished', 'ask resumed']);
+  });
+
+  it('does not count time spent waiting for the user against the timeout', async () => {
+    const executor = new ToolExecutor();
+    executor.registerTool(tool('ask'), interactiveToolHandler, { timeoutMs: 20 });
+
+    const result = executor.executeTool('t1', 'ask', {}, 'c1', 'm1');
+    await sleep(50);
+    executor.respond('t1', 'late but fine');
+    await expect(result).resolves.toBe('late but fine');
+  });
+
+  it('can be canceled while waiting for the user', async () => {
+    const executor = new ToolExecutor({ maxConcurrency: 1 });
+    executor.registerTool(tool('ask'), interactiveToolHandler);
+    executor.registerTool(tool('echo'), async () => 'done');
+
+    const asked = executor.executeTool('t1', 'ask', {}, 'c1', 'm1');
+    await sleep(0);
+    executor.cancel('t1', 'Closed');
+    await expect(asked).rejects.toMatchObject({ code: 'TOOL_CANCELED' });
+    await expect(executor.executeTool('t2', 'echo', {}, 'c1', 'm1')).resolves.toBe('done');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ToolExecutor, isContentBlocks, serializeToolResult } from '../src/tool-executor';
+import type { ToolContentBlock, ToolHandlerContext } from '../src/types';
+
+const tool = (name: string) => ({ name, description: name, parameters: { type: 'object' } });
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('tool progress', () => {
+  it('reports onProgress updates on the execution', async () => {
+    const executor = new ToolExecutor();
+    const progress = vi.fn();
+    executor.on('tool.execution.progress', progress);
+    let report!: (value: unknown) => void;
+    let finish!: () => void;
+    executor.registerTool(tool('render'), (_args, context) => new Promise<string>(resolve => {
+      report = context.onProgress;
+      finish = () => resolve('rendered');
+    }));
+
+    const result = executor.executeTool('t1', 'render', {}, 'c1', 'm1');
+    await sleep(0);
+    report({ percent: 50 });
+    expect(executor.getExecution('t1')?.progress).toEqual({ percent: 50 });
+    expect(progress).toHaveBeenCalledWith({ toolCallId: 't1', progress: { percent: 50 } });
+
+    finish();
+    await expect(result).resolves.toBe('rendered');
+    // Late updates are ignored
+    report({ percent: 99 });
+    expect(executor.getExecution('t1')?.progress).toEqual({ percent: 50 });
+  });
+
+  it('streams the yields of an async generator handler as progress', async () => {
+    const executor = new ToolExecutor();
+    const seen: unknown[] = [];
+    executor.on('tool.execution.progress', ({ progress }: { progress: unknown }) => seen.push(progress));
+    executor.registerTool(tool('chart'), async function* () {
+      yield 'loading';
+      yield { points: 2 };
+      return { chart: [1, 2] };
+    });
+
+    await expect(executor.executeTool('t1', 'chart', {}, 'c1', 'm1')).resolves.toBe('{"chart":[1,2]}');
+    expect(seen).toEqual(['loading', { points: 2 }]);
+    expect(executor.getExecution('t1')).toMatchObject({
+      status: 'completed',
+      progress: { points: 2 },
+      result: { chart: [1, 2] },
+      output: '{"chart":[1,2]}',
+    });
+  });
+
+  it('stops a generator handler when its attempt is aborted', async () => {
+    const executor = new ToolExecutor();
+    let cleanedUp = false;
+    executor.registerTool(tool('poll'), async function* (_args: unknown, context: ToolHandlerContext) {
+      try {
+        while (!context.signal.aborted) {
+          yield 'polling';
+          await sleep(1);
+        }
+        return 'stopped';
+      } finally {
+        cleanedUp = true;
+      }
+    }, { timeoutMs: 10 });
+
+    await expect(executor.executeTool('t1', 'poll', {}, 'c1', 'm1')).rejects.toMatchObject({ code: 'TOOL_TIMEOUT' });
+    await vi.waitFor(() => expect(cleanedUp).toBe(true));
+  });
+});
+
+describe('rich tool results', () => {
+  it('keeps the result and serializes it for the agent', async () => {
+    const executor = new ToolExecutor();
+    const blocks: ToolContentBlock[] = [
+      { type: 'text', text: 'Here is the file' },
+      { type: 'file', url: 'https://example.com/a.pdf', mimeType: 'application/pdf' },
+    ];
+    executor.registerTool(tool('pick'), async () => blocks);
+
+    const output = await executor.executeTool('t1', 'pick', {}, 'c1', 'm1');
+    expect(JSON.parse(output)).toEqual({ content: blocks });
+    expect(executor.getExecution('t1')?.result).toEqual(blocks);
+  });
+
+  it('serializes each kind of result', () => {
+    expect(serializeToolResult('plain')).toBe('plain');
+    expect(serializeToolResult(undefined)).toBe('');
+    expect(serializeToolResult({ total: 3 })).toBe('{"total":3}');
+    expect(serializeToolResult([1, 2])).toBe('[1,2]');
+    expect(serializeToolResult([{ type: 'image', url: 'data:image/png;base64,AA' }]))
+      .toBe('{"content":[{"type":"image","url":"data:image/png;base64,AA"}]}');
+  });
+
+  it('only treats lists of known blocks as content blocks', () => {
+    expect(isContentBlocks([{ type: 'text', text: 'a' }])).toBe(true);
+    expect(isContentBlocks([])).toBe(false);
+    expect(isContentBlocks([{ type: 'text', text: 'a' }, { type: 'video' }])).toBe(false);
+    expect(isContentBlocks('text')).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAgUiStore } from '../src/store/createAgUiStore';
+import { MockAgClient } from '../src/testing/mockClient';
+import { ToolExecutionError, ToolExecutor } from '../src/tool-executor';
+import type { Id } from '../src/types';
+
+const tool = (name: string) => ({ name, description: name, parameters: { type: 'object' } });
+
+describe('tool retries', () => {
+  it('retries a failing handler with exponential backoff', async () => {
+    const executor = new ToolExecutor();
+    const retrying = vi.fn();
+    executor.on('tool.execution.retrying', retrying);
+    const handler = vi.fn()
+      .mockRejectedValueOnce(new Error('busy'))
+      .mockRejectedValueOnce(new Error('still busy'))
+      .mockResolvedValueOnce('done');
+    executor.registerTool(tool('flaky'), handler, { retry: { maxAttempts: 3, backoffMs: 5, backoffMultiplier: 3 } });
+
+    await expect(executor.executeTool('t1', 'flaky', {}, 'c1', 'm1')).resolves.toBe('done');
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(retrying.mock.calls.map(([e]) => [e.attempt, e.error.message, e.delayMs])).toEqual([
+      [1, 'busy', 5],
+      [2, 'still busy', 15],
+    ]);
+    expect(executor.getExecution('t1')).toMatchObject({ status: 'completed', attempts: 3 });
+  });
+
+  it('fails with the last error once every attempt is used', async () => {
+    const executor = new ToolExecutor();
+    const failed = vi.fn();
+    executor.on('tool.execution.failed', failed);
+    let calls = 0;
+    executor.registerTool(tool('broken'), async () => {
+      throw new Error(`failure ${++calls}`);
+    }, { retry: { maxAttempts: 2, backoffMs: 1 } });
+
+    const error = await executor.executeTool('t1', 'broken', {}, 'c1', 'm1').catch(e => e);
+    expect(error).toBeInstanceOf(ToolExecutionError);
+    expect(JSON.parse(error.toToolResult())).toEqual({
+      status: 'error',
+      error: 'TOOL_EXECUTION_FAILED',
+      toolName: 'broken',
+      message: 'failure 2',
+      attempts: 2,
+    });
+    expect(executor.getExecution('t1')?.status).toBe('failed');
+    expect(failed).toHaveBeenCalledWith({ toolCallId: 't1', error });
+  });
+
+  it('does not retry by default', async () => {
+    const executor = new ToolExecutor();
+    const handler = vi.fn(async () => {
+      throw new Error('nope');
+    });
+    executor.registerTool(tool('broken'), handler);
+
+    await expect(executor.executeTool('t1', 'broken', {}, 'c1', 'm1')).rejects.toThrow('nope');
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('stops retrying when canceled during the backoff', async () => {
+    const executor = new ToolExecutor();
+    const handler = vi.fn(async () => {
+      throw new Error('busy');
+    });
+    executor.on('tool.execution.retrying', () => executor.cancel('t1', 'Stop'));
+    executor.registerTool(tool('flaky'), handler, { retry: { maxAttempts: 5, backoffMs: 1000 } });
+
+    const error = await executor.executeTool('t1', 'flaky', {}, 'c1', 'm1').catch(e => e);
+    expect(error.code).toBe('TOOL_CANCELED');
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('fails unknown tools with TOOL_NOT_FOUND', async () => {
+    const executor = new ToolExecutor();
+    const error = await executor.executeTool('t1', 'missing', {}, 'c1', 'm1').catch(e => e);
+    expect(error).toBeInstanceOf(ToolExecutionError);
+    expect(error.code).toBe('TOOL_NOT_FOUND');
+    expect(executor.getExecution('t1')?.status).toBe('failed');
+  });
+});
+
+describe('tool failures in the store', () => {
+  it('sends the error back to the agent and records the failure', async () => {
+    const sent: { toolCallId: string; result: string }[] = [];
+    class ToolResultClient extends MockAgClient {
+      async sendToolResult(_conversationId: Id, toolCallId: string, result: string): Promise<void> {
+        sent.push({ toolCallId, result });
+      }
+    }
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const client = new ToolResultClient();
+    const emit = (type: string, payload: object) => (client as any).emit(type, { threadId: 'c1', runId: 'r1', ...payload });
+    const toolExecutor = new ToolExecutor();
+    toolExecutor.registerTool(tool('broken'), async () => {
+      throw new Error('disk full');
+    });
+    const store = createAgUiStore({ client, toolExecutor });
+
+    emit('RUN_STARTED', {});
+    emit('TEXT_MESSAGE_START', { messageId: 'a1', role: 'assistant' });
+    emit('TOOL_CALL_START', { toolCallId: 't1', toolCallName: 'broken', parentMessageId: 'a1' });
+    emit('TOOL_CALL_END', { toolCallId: 't1' });
+    emit('TEXT_MESSAGE_END', { messageId: 'a1' });
+    emit('RUN_FINISHED', {});
+
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+    expect(sent[0].toolCallId).toBe('t1');
+    expect(JSON.parse(sent[0].result)).toMatchObject({ status: 'error', error: 'TOOL_EXECUTION_FAILED', message: 'disk full' });
+    expect(store.state.toolCallFailures.t1).toMatchObject({ toolCallId: 't1', toolName: 'broken' });
+    store.close();
+    logged.mockRestore();
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAgUiStore } from '../src/store/createAgUiStore';
+import { MockAgClient } from '../src/testing/mockClient';
+import { ToolExecutor } from '../src/tool-executor';
+import type { ToolHandlerContext } from '../src/types';
+
+const tool = (name: string) => ({ name, description: name, parameters: { type: 'object' } });
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs until its signal aborts
+const hang = (_args: unknown, context: ToolHandlerContext) => new Promise<string>((_, reject) => {
+  context.signal.addEventListener('abort', () => reject(context.signal.reason));
+});
+
+describe('tool timeouts', () => {
+  it('aborts the handler and fails with TOOL_TIMEOUT', async () => {
+    const executor = new ToolExecutor();
+    let signal!: AbortSignal;
+    executor.registerTool(tool('slow'), (args, context) => {
+      signal = context.signal;
+      return hang(args, context);
+    }, { timeoutMs: 10 });
+
+    const error = await executor.executeTool('t1', 'slow', {}, 'c1', 'm1').catch(e => e);
+    expect(error.code).toBe('TOOL_TIMEOUT');
+    expect(error.message).toBe('Timed out after 10ms');
+    expect(signal.aborted).toBe(true);
+    expect(executor.getExecution('t1')?.status).toBe('failed');
+  });
+
+  it('settles even when the handler ignores its signal', async () => {
+    const executor = new ToolExecutor({ defaultTimeoutMs: 10 });
+    executor.registerTool(tool('stuck'), () => new Promise<string>(() => {}));
+
+    await expect(executor.executeTool('t1', 'stuck', {}, 'c1', 'm1')).rejects.toMatchObject({ code: 'TOOL_TIMEOUT' });
+  });
+
+  it('times each attempt separately', async () => {
+    const executor = new ToolExecutor();
+    const signals: AbortSignal[] = [];
+    executor.registerTool(tool('flaky'), async (args, context) => {
+      signals.push(context.signal);
+      return signals.length === 1 ? hang(args, context) : 'done';
+    }, { timeoutMs: 10, retry: { maxAttempts: 2, backoffMs: 1 } });
+
+    await expect(executor.executeTool('t1', 'flaky', {}, 'c1', 'm1')).resolves.toBe('done');
+    expect(signals.map(s => s.aborted)).toEqual([true, false]);
+  });
+});
+
+describe('tool cancellation', () => {
+  it('passes the call context to the handler', async () => {
+    const executor = new ToolExecutor();
+    const handler = vi.fn(async (_args: unknown, _context: ToolHandlerContext) => 'done');
+    executor.registerTool(tool('echo'), handler);
+
+    await executor.executeTool('t1', 'echo', {}, 'c1', 'm1');
+    expect(handler.mock.calls[0][1]).toMatchObject({ toolCallId: 't1', conversationId: 'c1', messageId: 'm1' });
+  });
+
+  it('aborts every execution of a canceled message', async () => {
+    const executor = new ToolExecutor();
+    executor.registerTool(tool('slow'), hang);
+
+    const first = executor.executeTool('t1', 'slow', {}, 'c1', 'm1').catch(e => e);
+    const second = executor.executeTool('t2', 'slow', {}, 'c1', 'm1').catch(e => e);
+    const other = executor.executeTool('t3', 'slow', {}, 'c1', 'm2').catch(e => e);
+    await sleep(0);
+    executor.cancelForMessage('m1');
+
+    expect(await first).toMatchObject({ code: 'TOOL_CANCELED', message: 'Message canceled' });
+    expect(await second).toMatchObject({ code: 'TOOL_CANCELED' });
+    expect(executor.getExecution('t3')?.status).toBe('executing');
+    executor.cancelForConversation('c1');
+    expect(await other).toMatchObject({ code: 'TOOL_CANCELED', message: 'Conversation closed' });
+  });
+
+  it('gives up a queued call that is canceled before it gets a slot', async () => {
+    const executor = new ToolExecutor({ maxConcurrency: 1 });
+    const handler = vi.fn(hang);
+    executor.registerTool(tool('slow'), handler);
+
+    const running = executor.executeTool('t1', 'slow', {}, 'c1', 'm1').catch(e => e);
+    const queued = executor.executeTool('t2', 'slow', {}, 'c1', 'm2').catch(e => e);
+    await sleep(0);
+    executor.cancel('t2');
+
+    expect(await queued).toMatchObject({ code: 'TOOL_CANCELED' });
+    expect(handler).toHaveBeenCalledOnce();
+    executor.cancel('t1');
+    await running;
+  });
+
+  it('does not start a call canceled right after it was requested', async () => {
+    const executor = new ToolExecutor({ maxConcurrency: 1 });
+    const handler = vi.fn(hang);
+    executor.registerTool(tool('slow'), handler);
+    executor.registerTool(tool('echo'), async () => 'done');
+
+    const result = executor.executeTool('t1', 'slow', {}, 'c1', 'm1').catch(e => e);
+    executor.cancel('t1');
+
+    expect(await result).toMatchObject({ code: 'TOOL_CANCELED' });
+    expect(handler).not.toHaveBeenCalled();
+    // Its slot is free again
+    await expect(executor.executeTool('t2', 'echo', {}, 'c1', 'm1')).resolves.toBe('done');
+  });
+
+  it('cancels the executions of a message the server canceled', async () => {
+    const client = new MockAgClient();
+    const toolExecutor = new ToolExecutor();
+    toolExecutor.registerTool(tool('slow'), hang);
+    const store = createAgUiStore({ client, toolExecutor });
+
+    const result = toolExecutor.executeTool('t1', 'slow', {}, 'c1', 'm1').catch(e => e);
+    await sleep(0);
+    (client as any).emit('message.canceled', { messageId: 'm1', threadId: 'c1' });
+
+    expect(await result).toMatchObject({ code: 'TOOL_CANCELED' });
+    expect(toolExecutor.getPendingExecutions()).toEqual([]);
+    store.close();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ToolArgumentsError, ToolExecutor } from '../src/tool-executor';
+import { validateToolArgs } from '../src/tool-validation';
+
+const schema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', minLength: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 50, default: 10 },
+    sort: { type: 'string', enum: ['asc', 'desc'] },
+  },
+  required: ['query'],
+  additionalProperties: false,
+};
+
+describe('validateToolArgs', () => {
+  it('applies defaults without modifying the input', () => {
+    const args = { query: 'cats' };
+    const { valid, value } = validateToolArgs(schema, args);
+    expect(valid).toBe(true);
+    expect(value).toEqual({ query: 'cats', limit: 10 });
+    expect(args).toEqual({ query: 'cats' });
+  });
+
+  it('reports every issue with its JSON Pointer path', () => {
+    const { valid, issues } = validateToolArgs(schema, { limit: 0, sort: 'up', extra: true });
+    expect(valid).toBe(false);
+    expect(issues).toEqual([
+      { path: '/query', keyword: 'required', message: 'is required' },
+      { path: '/limit', keyword: 'minimum', message: 'must be >= 1' },
+      { path: '/sort', keyword: 'enum', message: 'must be one of "asc", "desc"' },
+      { path: '/extra', keyword: 'additionalProperties', message: 'is not allowed' },
+    ]);
+  });
+
+  it('validates nested arrays and objects', () => {
+    const nested = {
+      type: 'object',
+      properties: {
+        'a/b': { type: 'array', maxItems: 2, items: { type: 'object', properties: { n: { type: 'number', default: 0 } } } },
+      },
+    };
+    expect(validateToolArgs(nested, { 'a/b': [{}, { n: 2 }] }).value).toEqual({ 'a/b': [{ n: 0 }, { n: 2 }] });
+    expect(validateToolArgs(nested, { 'a/b': [{ n: 'x' }] }).issues).toEqual([
+      { path: '/a~1b/0/n', keyword: 'type', message: 'must be number' },
+    ]);
+  });
+
+  it('checks anyOf and oneOf', () => {
+    const either = { anyOf: [{ type: 'string' }, { type: 'number' }] };
+    expect(validateToolArgs(either, 3).valid).toBe(true);
+    expect(validateToolArgs(either, true).issues).toEqual([
+      { path: '', keyword: 'anyOf', message: 'must match at least one schema' },
+    ]);
+
+    const one = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+    expect(validateToolArgs(one, 1.5).valid).toBe(true);
+    expect(validateToolArgs(one, 2).issues).toEqual([
+      { path: '', keyword: 'oneOf', message: 'must match exactly one schema' },
+    ]);
+  });
+
+  it('reports a pattern that does not compile instead of throwing', () => {
+    const code = { type: 'string', pattern: '([a-z]' };
+    expect(() => validateToolArgs(code, 'abc')).not.toThrow();
+    expect(validateToolArgs(code, 'abc').issues).toEqual([
+      { path: '', keyword: 'pattern', message: 'has an invalid schema pattern ([a-z]' },
+    ]);
+    expect(validateToolArgs({ type: 'string', pattern: '^\\p{Lu}' }, 'Éa').valid).toBe(true);
+  });
+
+  it('accepts anything without a schema', () => {
+    expect(validateToolArgs(undefined, { any: 1 })).toEqual({ valid: true, value: { any: 1 }, issues: [] });
+  });
+});
+
+describe('tool argument validation in ToolExecutor', () => {
+  const tool = { name: 'search', description: 'Search', parameters: schema };
+
+  it('passes validated args with defaults to the handler', async () => {
+    const executor = new ToolExecutor();
+    const handler = vi.fn(async (args: { query: string; limit: number }) => `${args.query}:${args.limit}`);
+    executor.registerTool<{ query: string; limit: number }>(tool, handler);
+
+    await expect(executor.executeTool('t1', 'search', '{"query":"cats"}', 'c1', 'm1')).resolves.toBe('cats:10');
+    expect(handler.mock.calls[0][0]).toEqual({ query: 'cats', limit: 10 });
+  });
+
+  it('fails invalid calls with a machine-readable error, without running the handler', async () => {
+    const executor = new ToolExecutor();
+    const handler = vi.fn(async () => 'found');
+    const failed = vi.fn();
+    executor.on('tool.execution.failed', failed);
+    executor.registerTool(tool, handler, { policy: 'confirm' });
+
+    const error = await executor.executeTool('t1', 'search', { limit: 100 }, 'c1', 'm1').catch(e => e);
+    expect(error).toBeInstanceOf(ToolArgumentsError);
+    expect(JSON.parse(error.toToolResult())).toEqual({
+      status: 'error',
+      error: 'INVALID_TOOL_ARGUMENTS',
+      toolName: 'search',
+      issues: [
+        { path: '/query', keyword: 'required', message: 'is required' },
+        { path: '/limit', keyword: 'maximum', message: 'must be <= 50' },
+      ],
+    });
+    expect(executor.getExecution('t1')?.status).toBe('failed');
+    expect(failed).toHaveBeenCalledWith({ toolCallId: 't1', error });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('reports arguments that are not valid JSON', async () => {
+    const executor = new ToolExecutor();
+    executor.registerTool(tool, async () => 'found');
+
+    const error = await executor.executeTool('t1', 'search', '{"query": "ca', 'c1', 'm1').catch(e => e);
+    expect(error).toBeInstanceOf(ToolArgumentsError);
+    expect(error.issues[0]).toMatchObject({ path: '', keyword: 'json' });
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WsAgClient } from '../src/transport/ws';
+import { createAgUiStore } from '../src/store/createAgUiStore';
+
+// Minimal WebSocket stand-in; the test opens and closes sockets by hand
+class FakeWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  sent: any[] = [];
+  onopen?: () => void;
+  onmessage?: (ev: { data: string }) => void;
+  onclose?: (ev: { code: number; reason: string }) => void;
+  onerror?: () => void;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(raw: string) {
+    this.sent.push(JSON.parse(raw));
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  close(code = 1006, reason = '') {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, reason });
+  }
+}
+
+const latest = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+function createClient(requestTimeoutMs = 30000) {
+  return new WsAgClient({
+    url: 'ws://test',
+    requestTimeoutMs,
+    heartbeatIntervalMs: 0,
+    reconnect: { initialDelayMs: 1 },
+    WebSocketImpl: FakeWebSocket as unknown as typeof WebSocket,
+  });
+}
+
+describe('WsAgClient outbox', () => {
+  let client: WsAgClient | undefined;
+
+  afterEach(() => {
+    client?.close();
+    FakeWebSocket.instances = [];
+  });
+
+  it('sends requests queued while connecting once the socket opens', async () => {
+    client = createClient();
+    const result = client.getMessages('c1');
+    latest().open();
+
+    const frame = latest().sent.find(f => f.type === 'request');
+    expect(frame).toMatchObject({ method: 'message.list', params: { conversationId: 'c1' } });
+    latest().onmessage?.({ data: JSON.stringify({ type: 'response', id: frame.id, result: [] }) });
+    await expect(result).resolves.toEqual([]);
+  });
+
+  it('drops a queued request when the connection closes before it is sent', async () => {
+    client = createClient();
+    const result = client.sendMessage('c1', 'hello');
+    latest().close();
+    await expect(result).rejects.toThrow('WebSocket closed');
+
+    await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(2));
+    latest().open();
+    expect(latest().sent.filter(f => f.type === 'request')).toEqual([]);
+  });
+
+  it('drops a queued request that timed out', async () => {
+    client = createClient(10);
+    await expect(client.sendMessage('c1', 'hello')).rejects.toThrow('timed out');
+
+    latest().open();
+    expect(latest().sent.filter(f => f.type === 'request')).toEqual([]);
+  });
+});
+
+describe('WsAgClient session resume', () => {
+  afterEach(() => {
+    FakeWebSocket.instances = [];
+  });
+
+  const receive = (frame: object) => latest().onmessage?.({ data: JSON.stringify(frame) });
+  const resumeFrames = () => latest().sent.filter(f => f.type === 'event' && f.event === 'client.resume');
+
+  it('asks for a full snapshot when the server starts a new session', async () => {
+    const client = createClient();
+    const store = createAgUiStore(client);
+    latest().open();
+    receive({ type: 'event', event: 'client.ready', data: { sessionId: 's1' } });
+    receive({
+      type: 'event',
+      event: 'conversation.created',
+      data: { conversation: { id: 'c1', title: 'A', createdAt: '', updatedAt: '', revision: '5', status: 'active' } },
+      revision: '5',
+    });
+
+    latest().close();
+    await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(2));
+    latest().open();
+    receive({ type: 'event', event: 'client.ready', data: { sessionId: 's2' } });
+
+    expect(resumeFrames()).toEqual([{ type: 'event', event: 'client.resume', data: { sessionId: 's2' } }]);
+    store.close();
+  });
+
+  it('asks for a delta when the server kept the session', async () => {
+    const client = createClient();
+    const store = createAgUiStore(client);
+    latest().open();
+    receive({ type: 'event', event: 'client.ready', data: { sessionId: 's1' } });
+    receive({
+      type: 'event',
+      event: 'conversation.created',
+      data: { conversation: { id: 'c1', title: 'A', createdAt: '', updatedAt: '', revision: '5', status: 'active' } },
+      revision: '5',
+    });
+
+    latest().close();
+    await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(2));
+    latest().open();
+    receive({ type: 'event', event: 'client.ready', data: { sessionId: 's1' } });
+
+    expect(resumeFrames()).toEqual([
+      { type: 'event', event: 'client.resume', data: { sessionId: 's1', sinceRevision: '5' } },
+    ]);
+    store.close();
+  });
+});
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import solidPlugin from 'vite-plugin-solid';
 import path from 'path';
@@ -20,4 +21,8 @@ export default defineConfig({
     sourcemap: true,
     target: 'esnext',
   },
+  test: {
+    environment: 'node',
+    include: ['test/**/*.test.ts'],
+  },
 });